@@ -1,16 +1,101 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import * as THREE from 'three';
-import { Upload, Box, FileCode, Loader2, Layers, Shield, Sword, Trophy, Brain, Minus, Plus } from 'lucide-react';
+import { Upload, Box, FileCode, Loader2, Layers, Shield, Sword, Trophy, Brain, Minus, Plus, Crop, Palette, Eye, Download, TriangleAlert, Stamp, Save, FolderOpen, History, Undo2, Redo2, RotateCw } from 'lucide-react';
 import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
-import { vectorizeImage } from './utils/ImageProcessor';
-import type { VectorizationOptions } from './utils/ImageProcessor';
-import { create3DModel } from './utils/ModelGenerator';
-import type { ModelDimensions } from './utils/ModelGenerator';
-import { generateGCode } from './utils/GCodeGenerator';
+import { vectorizeImage, DEFAULT_VECTORIZATION_OPTIONS } from './utils/ImageProcessor';
+import type { VectorizationOptions, VectorizerChoice, VectorizerId } from './utils/ImageProcessor';
+import { create3DModel, createRegistrationJig, DEFAULT_MODEL_DIMENSIONS } from './utils/ModelGenerator';
+import type { DesignFit, ModelDimensions, PlateFit, PlateHandle } from './utils/ModelGenerator';
+import { generateGCode, gcodeModelProblem, gcodeSetupProblem, DEFAULT_GCODE_SETTINGS } from './utils/GCodeGenerator';
+import type { GCodeSettings } from './utils/GCodeGenerator';
+import type { InfillPattern } from './utils/Infill';
+import { loadProfiles, saveProfiles, loadSelectedProfileId, saveSelectedProfileId } from './utils/PrinterProfiles';
+import type { PrinterProfile } from './utils/PrinterProfiles';
 import Preview3D from './components/Preview3D';
 import PreviewSVG from './components/PreviewSVG';
+import ImpressionPreview from './components/ImpressionPreview';
+import PrinterProfileEditor from './components/PrinterProfileEditor';
+import ThresholdPreview from './components/ThresholdPreview';
+import ImageEditor from './components/ImageEditor';
+import LengthInput from './components/LengthInput';
+import { applyAdjustments, isDefaultAdjustments, DEFAULT_IMAGE_ADJUSTMENTS } from './utils/ImageAdjustments';
+import type { ImageAdjustments } from './utils/ImageAdjustments';
+import { separateColors, DEFAULT_REDUCTION_SETTINGS } from './utils/ColorSeparation';
+import type { ColorSeparation, ReductionSettings, SeparationMode } from './utils/ColorSeparation';
+import ReductionPreview from './components/ReductionPreview';
+import { repairModel } from './utils/MeshValidation';
+import type { MeshReport } from './utils/MeshValidation';
+import MeshReportPanel from './components/MeshReportPanel';
+import { analyzePrintability, applyPrintabilityFix, printabilityOverlaySvg, printabilityOverlay3D } from './utils/Printability';
+import type { PrintabilityFix, PrintabilityReport } from './utils/Printability';
+import { flipTextBlocks } from './utils/Lettering';
+import { extractBodies, export3MF, exportOBJ } from './utils/ModelExport';
+import { packProject, unpackProject, saveAutosave, loadAutosave, clearAutosave, isEmptyProject, PROJECT_EXTENSION } from './utils/Project';
+import type { AutosavedProject, Project } from './utils/Project';
+import { recordCommand, travelTo, canUndo, canRedo, EMPTY_HISTORY } from './utils/EditHistory';
+import type { DesignPatch, DesignState, EditHistory } from './utils/EditHistory';
+import { formatLength, loadLengthUnit, saveLengthUnit, LENGTH_UNITS } from './utils/Units';
+import type { LengthUnit } from './utils/Units';
 
-type ViewMode = 'svg' | '3d';
+type ViewMode = 'svg' | '3d' | 'print';
+
+// How often the session is written to IndexedDB, if anything changed
+const AUTOSAVE_INTERVAL_MS = 10000;
+
+// History list names for each setting
+const DIMENSION_LABELS: Record<keyof ModelDimensions, string> = {
+  targetLengthMm: 'Length',
+  targetWidthMm: 'Width',
+  baseThicknessMm: 'Base thickness',
+  extrusionDepthMm: 'Relief depth',
+  curveSegments: 'Detail level',
+  mirrorForPrinting: 'Mirror for printing',
+  shoulderAngleDeg: 'Shoulder angle',
+  shoulderFilletMm: 'Shoulder fillet',
+  plateFit: 'Plate size',
+  plateMarginMm: 'Plate margin',
+  plateCornerRadiusMm: 'Plate corners',
+  plateHandle: 'Grip',
+  hangingHole: 'Hanging hole',
+  engraveLabel: 'Engraved label',
+  designFit: 'Design fit',
+  designScalePercent: 'Design scale',
+  designRotationDeg: 'Design rotation',
+  designOffsetXMm: 'Design position',
+  designOffsetYMm: 'Design position',
+  designPaddingMm: 'Design padding',
+};
+
+const VECTOR_OPTION_LABELS: Record<keyof VectorizationOptions, string> = {
+  turdsize: 'Turd size',
+  alphamax: 'Corner smoothing',
+  optcurve: 'Curve optimization',
+  opttolerance: 'Curve tolerance',
+  threshold: 'Threshold',
+  manualThreshold: 'Threshold mode',
+  algorithm: 'Segmentation',
+};
+
+// Inputs that keep the browser's own undo for their text
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement
+  || (target instanceof HTMLElement && target.isContentEditable)
+  || (target instanceof HTMLInputElement && !['checkbox', 'radio', 'range', 'color', 'button', 'file'].includes(target.type));
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+};
+
+const designNameOf = (file: File | null) => (file ? file.name.replace(/\.[^.]+$/, '') : 'Block Print');
+
+const downloadSTL = (group: THREE.Group, filename: string) => {
+  const exporter = new STLExporter();
+  const result = exporter.parse(group, { binary: true });
+  downloadBlob(new Blob([result], { type: 'application/octet-stream' }), filename);
+};
 
 
 
@@ -22,140 +107,488 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
 
-  // SVG History for Undo/Redo
-  const [svgHistory, setSvgHistory] = useState<string[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  // Pre-processing applied to the upload; `processedImage` is what gets vectorized
+  const [imageAdjustments, setImageAdjustments] = useState<ImageAdjustments>(DEFAULT_IMAGE_ADJUSTMENTS);
+  const [processedImage, setProcessedImage] = useState<Blob | null>(null);
+  const [isEditingImage, setIsEditingImage] = useState(false);
+
+  // Undo/redo across SVG edits, dimension changes and vectorization options
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+
+  // Multi-color reduction: one registered block per ink; `activeLayer` is the block shown in 3D
+  const [reductionSettings, setReductionSettings] = useState<ReductionSettings>(DEFAULT_REDUCTION_SETTINGS);
+  const [colorSeparation, setColorSeparation] = useState<ColorSeparation | null>(null);
+  const [activeLayer, setActiveLayer] = useState<number | null>(null);
+
+  // Repaired mesh and its validation report, held until the user confirms the STL download
+  const [stlExport, setStlExport] = useState<{ group: THREE.Group; report: MeshReport; filename: string } | null>(null);
 
   // Vectorization options
-  const [vectorOptions, setVectorOptions] = useState<VectorizationOptions>({
-    turdsize: 2,
-    alphamax: 1.0,
-    optcurve: true,
-    opttolerance: 0.2,
-    threshold: 128,
-    manualThreshold: false,
-    algorithm: 'otsu'
-  });
+  const [vectorOptions, setVectorOptions] = useState<VectorizationOptions>(DEFAULT_VECTORIZATION_OPTIONS);
+  const [vectorizer, setVectorizer] = useState<VectorizerChoice>('auto');
+  const [lastEngine, setLastEngine] = useState<VectorizerId | null>(null);
 
   // Dimension controls
-  const [dimensions, setDimensions] = useState<ModelDimensions>({
-    targetLengthInches: 5,      // Y dimension - 5 inches
-    targetWidthInches: 4,       // X dimension - 4 inches
-    baseThicknessMm: 3,         // Base thickness - 3mm
-    extrusionDepthMm: 3,        // Extrusion depth - 3mm
-    curveSegments: 4,           // Low for fewer triangles (~295k or less)
+  const [dimensions, setDimensions] = useState<ModelDimensions>(DEFAULT_MODEL_DIMENSIONS);
+  // Unit every length is shown and entered in; lengths are always stored in mm
+  const [lengthUnit, setLengthUnit] = useState<LengthUnit>(loadLengthUnit);
+
+  // Slicing controls
+  const [gcodeSettings, setGcodeSettings] = useState<GCodeSettings>(DEFAULT_GCODE_SETTINGS);
+
+  // Printer profiles, persisted in localStorage between sessions
+  const [printerProfiles, setPrinterProfiles] = useState<PrinterProfile[]>(loadProfiles);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>(loadSelectedProfileId);
+  const printerProfile = printerProfiles.find(p => p.id === selectedProfileId) ?? printerProfiles[0];
+
+  // Printability check; a result only applies to the design, dimensions and width it was run with
+  const [minFeatureMm, setMinFeatureMm] = useState(() => printerProfile.nozzleDiameter);
+  const [printabilityCheck, setPrintabilityCheck] = useState<{
+    svgString: string;
+    dimensions: ModelDimensions;
+    minFeatureMm: number;
+    report: PrintabilityReport | null;
+  } | null>(null);
+  const [showPrintability, setShowPrintability] = useState(true);
+
+  // Autosave waits until the user has answered the restore prompt, so it can't overwrite the session on offer
+  const [restorePrompt, setRestorePrompt] = useState<AutosavedProject | null>(null);
+  const [autosaveReady, setAutosaveReady] = useState(false);
+
+  useEffect(() => {
+    saveProfiles(printerProfiles);
+  }, [printerProfiles]);
+
+  useEffect(() => {
+    saveSelectedProfileId(selectedProfileId);
+  }, [selectedProfileId]);
+
+  useEffect(() => {
+    saveLengthUnit(lengthUnit);
+  }, [lengthUnit]);
+
+  useEffect(() => {
+    loadAutosave().then(saved => {
+      if (saved) setRestorePrompt(saved);
+      else setAutosaveReady(true);
+    });
+  }, []);
+
+  // The design as of the last recorded step: where the next step's `before` comes from. Sliders can
+  // run ahead of it until they are released and the image is traced again.
+  const committedRef = useRef<DesignState>({
+    svgString: null,
+    dimensions: DEFAULT_MODEL_DIMENSIONS,
+    vectorOptions: DEFAULT_VECTORIZATION_OPTIONS,
   });
 
-  const updateDimension = (key: keyof ModelDimensions, value: number) => {
-    setDimensions(prev => ({ ...prev, [key]: value }));
+  const recordEdit = useCallback((label: string, after: DesignPatch, mergeable = false) => {
+    const committed = committedRef.current;
+    const before: DesignPatch = {};
+    if ('svgString' in after) before.svgString = committed.svgString;
+    if (after.dimensions) before.dimensions = committed.dimensions;
+    if (after.vectorOptions) before.vectorOptions = committed.vectorOptions;
+    committedRef.current = { ...committed, ...after };
+    setHistory(prev => recordCommand(prev, { label, before, after, at: Date.now() }, mergeable));
+  }, []);
+
+  const updateDimension = <K extends keyof ModelDimensions>(key: K, value: ModelDimensions[K]) => {
+    const current = committedRef.current.dimensions;
+    if (current[key] === value) return;
+    const next = { ...current, [key]: value };
+    setDimensions(next);
+    recordEdit(DIMENSION_LABELS[key], { dimensions: next }, true);
   };
 
-  // Regenerate model when dimensions change
-  const regenerateModel = useCallback(() => {
-    if (svgString) {
-      const newModel = create3DModel(svgString, dimensions);
-      setModel(newModel);
+  const updateGcodeSetting = <K extends keyof GCodeSettings>(key: K, value: GCodeSettings[K]) => {
+    setGcodeSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateReductionSetting = <K extends keyof ReductionSettings>(key: K, value: ReductionSettings[K]) => {
+    setReductionSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  // Engraved on the back of the block when the label option is on
+  const designName = designNameOf(uploadedFile);
+
+  // Editable text turns over with the block, so it keeps printing the right way round
+  const updateMirroring = (mirrorForPrinting: boolean) => {
+    const current = committedRef.current;
+    if (current.dimensions.mirrorForPrinting === mirrorForPrinting) return;
+    const next = { ...current.dimensions, mirrorForPrinting };
+    setDimensions(next);
+    const flippedSvg = current.svgString && flipTextBlocks(current.svgString, !mirrorForPrinting);
+    if (flippedSvg === current.svgString) {
+      recordEdit(DIMENSION_LABELS.mirrorForPrinting, { dimensions: next });
+      return;
     }
-  }, [svgString, dimensions]);
-
-  // History helpers
-  const pushToHistory = useCallback((newSvg: string) => {
-    setSvgHistory(prev => {
-      const newHistory = prev.slice(0, historyIndex + 1);
-      newHistory.push(newSvg);
-      // Limit history to 50 items
-      if (newHistory.length > 50) newHistory.shift();
-      return newHistory;
-    });
-    setHistoryIndex(prev => {
-      const newIdx = Math.min(prev + 1, 49);
-      return newIdx;
+    setSvgString(flippedSvg);
+    setActiveLayer(null);
+    recordEdit(DIMENSION_LABELS.mirrorForPrinting, { dimensions: next, svgString: flippedSvg });
+    setModel(flippedSvg ? create3DModel(flippedSvg, next, { label: { name: designName } }) : null);
+  };
+
+  const createModel = useCallback((svg: string, modelDimensions: ModelDimensions = dimensions) =>
+    create3DModel(svg, modelDimensions, { label: { name: designName } }), [dimensions, designName]);
+
+  // Every color block is fitted to the whole image, not its own paths, so the blocks register
+  const createLayerModel = useCallback((separation: ColorSeparation, index: number, modelDimensions: ModelDimensions = dimensions) => {
+    const frame = new THREE.Box2(new THREE.Vector2(0, 0), new THREE.Vector2(separation.width, separation.height));
+    return create3DModel(separation.layers[index].svgString, modelDimensions, {
+      frame,
+      label: { name: designName, colorIndex: index + 1, colorCount: separation.layers.length },
     });
-  }, [historyIndex]);
-
-  const undo = useCallback(() => {
-    if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      const prevSvg = svgHistory[newIndex];
-      setSvgString(prevSvg);
-      setHistoryIndex(newIndex);
-      const newModel = create3DModel(prevSvg, dimensions);
+  }, [dimensions, designName]);
+
+  // Regenerate model when dimensions change
+  const regenerateModel = useCallback(() => {
+    if (colorSeparation && activeLayer !== null) {
+      setModel(createLayerModel(colorSeparation, activeLayer));
+    } else if (svgString) {
+      const newModel = createModel(svgString);
       setModel(newModel);
     }
-  }, [historyIndex, svgHistory, dimensions]);
-
-  const redo = useCallback(() => {
-    if (historyIndex < svgHistory.length - 1) {
-      const newIndex = historyIndex + 1;
-      const nextSvg = svgHistory[newIndex];
-      setSvgString(nextSvg);
-      setHistoryIndex(newIndex);
-      const newModel = create3DModel(nextSvg, dimensions);
-      setModel(newModel);
+  }, [svgString, colorSeparation, activeLayer, createModel, createLayerModel]);
+
+  // The design is dragged on the block itself, so the block follows it straight away
+  const moveDesign = ({ x, y }: { x: number; y: number }) => {
+    const current = committedRef.current.dimensions;
+    if (current.designOffsetXMm === x && current.designOffsetYMm === y) return;
+    const next = { ...current, designOffsetXMm: x, designOffsetYMm: y };
+    setDimensions(next);
+    recordEdit(DIMENSION_LABELS.designOffsetXMm, { dimensions: next });
+    if (colorSeparation && activeLayer !== null) {
+      setModel(createLayerModel(colorSeparation, activeLayer, next));
+    } else if (svgString) {
+      setModel(createModel(svgString, next));
     }
-  }, [historyIndex, svgHistory, dimensions]);
+  };
 
-  // Re-vectorize when options change
-  const reVectorize = useCallback(async (optionsOverride?: VectorizationOptions) => {
-    if (!uploadedFile) return;
+  // Only the most recent vectorization may update the design; older ones are aborted
+  const vectorizeAbortRef = useRef<AbortController | null>(null);
+
+  const runVectorization = useCallback(async (
+    file: Blob,
+    options: VectorizationOptions,
+    choice: VectorizerChoice,
+    failureMessage: string,
+    label: string
+  ) => {
+    vectorizeAbortRef.current?.abort();
+    const controller = new AbortController();
+    vectorizeAbortRef.current = controller;
     setIsProcessing(true);
+    setError(null);
+
     try {
-      const optionsToUse = optionsOverride || vectorOptions;
-      const { svgString: vectorizedSvg } = await vectorizeImage(uploadedFile, optionsToUse);
+      const { svgString: vectorizedSvg, engine } = await vectorizeImage(file, options, choice, controller.signal);
+      setLastEngine(engine);
       setSvgString(vectorizedSvg);
-      setSvgHistory([vectorizedSvg]);
-      setHistoryIndex(0);
-      const newModel = create3DModel(vectorizedSvg, dimensions);
+      setVectorOptions(options);
+      recordEdit(label, { svgString: vectorizedSvg, vectorOptions: options }, true);
+      setActiveLayer(null);
+      const newModel = createModel(vectorizedSvg);
       setModel(newModel);
-    } catch (err: any) {
-      setError(err.message || 'Failed to re-process image.');
+      return true;
+    } catch (err: unknown) {
+      // A newer request superseded this one; its result (or error) is irrelevant now
+      if (controller.signal.aborted) return false;
+      setError(err instanceof Error && err.message ? err.message : failureMessage);
+      return false;
     } finally {
-      setIsProcessing(false);
+      if (vectorizeAbortRef.current === controller) {
+        vectorizeAbortRef.current = null;
+        setIsProcessing(false);
+      }
     }
-  }, [uploadedFile, vectorOptions, dimensions]);
+  }, [createModel, recordEdit]);
 
-  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Re-vectorize when options change
+  const reVectorize = useCallback(async (optionsOverride?: VectorizationOptions, vectorizerOverride?: VectorizerChoice) => {
+    if (!processedImage) return;
+    const optionsToUse = optionsOverride || vectorOptions;
+    const committed = committedRef.current.vectorOptions;
+    const changed = (Object.keys(VECTOR_OPTION_LABELS) as (keyof VectorizationOptions)[])
+      .filter(key => optionsToUse[key] !== committed[key])
+      .map(key => VECTOR_OPTION_LABELS[key]);
+    const label = changed.length > 0 ? changed.join(', ') : 'Trace image';
+    await runVectorization(processedImage, optionsToUse, vectorizerOverride ?? vectorizer, 'Failed to re-process image.', label);
+  }, [processedImage, vectorOptions, vectorizer, runVectorization]);
+
+  // A new upload opens the image editor; vectorizing waits until the adjustments are applied
+  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     setUploadedFile(file);
+    setProcessedImage(null);
+    setColorSeparation(null);
+    setActiveLayer(null);
+    setImageAdjustments(DEFAULT_IMAGE_ADJUSTMENTS);
+    setIsEditingImage(true);
+    setError(null);
+    // Steps from the previous image don't apply to this one, and its design isn't where this one starts from
+    setHistory(EMPTY_HISTORY);
+    committedRef.current = { ...committedRef.current, svgString: null };
+  }, []);
+
+  const applyImageAdjustments = useCallback(async (adjustments: ImageAdjustments) => {
+    if (!uploadedFile) return;
+    setImageAdjustments(adjustments);
+    setIsEditingImage(false);
+
+    let processed: Blob;
+    try {
+      processed = await applyAdjustments(uploadedFile, adjustments);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to adjust image.');
+      return;
+    }
+
+    setProcessedImage(processed);
+    const succeeded = await runVectorization(processed, vectorOptions, vectorizer, 'Failed to process image. Please try a different file.', 'Trace image');
+    if (succeeded) setViewMode('3d');
+  }, [uploadedFile, vectorOptions, vectorizer, runVectorization]);
+
+  const cancelImageEditing = useCallback(() => {
+    // Closing the editor on a fresh upload still has to produce something to vectorize
+    if (!processedImage) applyImageAdjustments(imageAdjustments);
+    else setIsEditingImage(false);
+  }, [processedImage, imageAdjustments, applyImageAdjustments]);
+
+  const runSeparation = useCallback(async () => {
+    if (!processedImage) return;
+    vectorizeAbortRef.current?.abort();
+    const controller = new AbortController();
+    vectorizeAbortRef.current = controller;
     setIsProcessing(true);
     setError(null);
 
     try {
-      const { svgString: vectorizedSvg } = await vectorizeImage(file, vectorOptions);
-      setSvgString(vectorizedSvg);
-      setSvgHistory([vectorizedSvg]);
-      setHistoryIndex(0);
-      const newModel = create3DModel(vectorizedSvg, dimensions);
-      setModel(newModel);
-      setViewMode('3d');
-    } catch (err: any) {
-      setError(err.message || 'Failed to process image. Please try a different file.');
+      const separation = await separateColors(processedImage, reductionSettings, vectorOptions, controller.signal);
+      setColorSeparation(separation);
+      if (separation.layers.length > 0) {
+        setActiveLayer(0);
+        setModel(createLayerModel(separation, 0));
+      }
+    } catch (err: unknown) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error && err.message ? err.message : 'Failed to separate colors.');
     } finally {
-      setIsProcessing(false);
+      if (vectorizeAbortRef.current === controller) {
+        vectorizeAbortRef.current = null;
+        setIsProcessing(false);
+      }
     }
-  }, [dimensions, vectorOptions]);
+  }, [processedImage, reductionSettings, vectorOptions, createLayerModel]);
+
+  const showLayer = (index: number) => {
+    if (!colorSeparation) return;
+    setActiveLayer(index);
+    setModel(createLayerModel(colorSeparation, index));
+    setViewMode('3d');
+  };
+
+  const applySvgEdit = (newSvg: string, label = 'Edit SVG', mergeable = false) => {
+    setSvgString(newSvg);
+    setActiveLayer(null);
+    recordEdit(label, { svgString: newSvg }, mergeable);
+    const newModel = createModel(newSvg);
+    setModel(newModel);
+  };
+
+  // Undo, redo and the history list all move to a position and put back what changed on the way
+  const travel = useCallback((target: number) => {
+    const { history: next, patch } = travelTo(history, target);
+    if (next.position === history.position) return;
+    setHistory(next);
+
+    const restored = { ...committedRef.current, ...patch };
+    committedRef.current = restored;
+    if (patch.dimensions) setDimensions(patch.dimensions);
+    if (patch.vectorOptions) setVectorOptions(patch.vectorOptions);
+    if ('svgString' in patch) {
+      setSvgString(restored.svgString);
+      setActiveLayer(null);
+      setModel(restored.svgString
+        ? create3DModel(restored.svgString, restored.dimensions, { label: { name: designName } })
+        : null);
+    }
+  }, [history, designName]);
+
+  const undo = useCallback(() => travel(history.position - 1), [travel, history.position]);
+  const redo = useCallback(() => travel(history.position + 1), [travel, history.position]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextEntry(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) undo();
+      else if ((key === 'z' && event.shiftKey) || key === 'y') redo();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const printability = printabilityCheck
+    && printabilityCheck.svgString === svgString
+    && printabilityCheck.dimensions === dimensions
+    && printabilityCheck.minFeatureMm === minFeatureMm
+    ? printabilityCheck
+    : null;
+
+  const checkPrintability = (svg: string) => {
+    setPrintabilityCheck({ svgString: svg, dimensions, minFeatureMm, report: analyzePrintability(svg, dimensions, minFeatureMm) });
+    setShowPrintability(true);
+  };
+
+  const fixPrintability = (fix: PrintabilityFix) => {
+    if (!svgString || !printability?.report) return;
+    const fixedSvg = applyPrintabilityFix(svgString, printability.report, fix);
+    applySvgEdit(fixedSvg, { thicken: 'Thicken thin ink', remove: 'Remove thin ink', close: 'Close narrow gaps' }[fix]);
+    // Check again so the highlights show whatever is left
+    checkPrintability(fixedSvg);
+  };
+
+  // Highlights only make sense over the single-block design they were computed for
+  const printabilityOverlays = useMemo(() => {
+    const report = printability?.report;
+    if (!report || !showPrintability || activeLayer !== null || !svgString) return null;
+    return { svg: printabilityOverlaySvg(svgString, report), model: printabilityOverlay3D(report, dimensions) };
+  }, [printability, showPrintability, activeLayer, svgString, dimensions]);
+
+  const project = useMemo<Project>(() => ({
+    sourceImage: uploadedFile,
+    imageAdjustments,
+    vectorOptions,
+    vectorizer,
+    dimensions,
+    svgString,
+    history,
+  }), [uploadedFile, imageAdjustments, vectorOptions, vectorizer, dimensions, svgString, history]);
+
+  // The interval reads the latest project through a ref, so it keeps one timer for the whole session
+  const projectRef = useRef(project);
+  useEffect(() => {
+    projectRef.current = project;
+  }, [project]);
+
+  useEffect(() => {
+    if (!autosaveReady) return;
+    let lastSaved: Project | null = null;
+    const timer = window.setInterval(() => {
+      const current = projectRef.current;
+      if (current === lastSaved || isEmptyProject(current)) return;
+      lastSaved = current;
+      saveAutosave(current);
+    }, AUTOSAVE_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [autosaveReady]);
+
+  const openProject = useCallback(async (opened: Project) => {
+    vectorizeAbortRef.current?.abort();
+    setUploadedFile(opened.sourceImage);
+    setImageAdjustments(opened.imageAdjustments);
+    setVectorOptions(opened.vectorOptions);
+    setVectorizer(opened.vectorizer);
+    setDimensions(opened.dimensions);
+    setHistory(opened.history);
+    committedRef.current = { svgString: opened.svgString, dimensions: opened.dimensions, vectorOptions: opened.vectorOptions };
+    setColorSeparation(null);
+    setActiveLayer(null);
+    setIsEditingImage(false);
+    setError(null);
+
+    const svg = opened.svgString;
+    setSvgString(svg);
+    // createModel still holds the old dimensions and name, so build from the opened project directly
+    setModel(svg ? create3DModel(svg, opened.dimensions, { label: { name: designNameOf(opened.sourceImage) } }) : null);
+    setViewMode('3d');
 
-  const downloadSTL = () => {
+    // The processed image isn't saved; it is quick to make again from the source and the adjustments
+    try {
+      setProcessedImage(opened.sourceImage ? await applyAdjustments(opened.sourceImage, opened.imageAdjustments) : null);
+    } catch (err: unknown) {
+      setProcessedImage(null);
+      setError(err instanceof Error ? err.message : 'Failed to adjust image.');
+    }
+  }, []);
+
+  const restoreSession = async () => {
+    if (!restorePrompt) return;
+    await openProject(restorePrompt.project);
+    setRestorePrompt(null);
+    setAutosaveReady(true);
+  };
+
+  const discardSession = () => {
+    clearAutosave();
+    setRestorePrompt(null);
+    setAutosaveReady(true);
+  };
+
+  const saveProject = async () => {
+    downloadBlob(await packProject(project), `${designName}${PROJECT_EXTENSION}`);
+  };
+
+  const handleProjectOpen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again later
+    event.target.value = '';
+    if (!file) return;
+    try {
+      await openProject(await unpackProject(file));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to open project.');
+    }
+  };
+
+  const showSingleBlock = () => {
+    setActiveLayer(null);
+    if (svgString) setModel(createModel(svgString));
+  };
+
+  // Every STL goes through validation and repair first; the report is shown before downloading
+  const prepareSTLExport = (group: THREE.Group, filename: string) => {
+    const { group: repaired, report } = repairModel(group);
+    setStlExport({ group: repaired, report, filename });
+  };
+
+  const exportBaseName = activeLayer === null ? 'block_print' : `block_print_color_${activeLayer + 1}`;
+
+  const exportModelSTL = () => {
     if (!model) return;
-    const exporter = new STLExporter();
-    const result = exporter.parse(model, { binary: true });
-    const blob = new Blob([result], { type: 'application/octet-stream' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = 'block_print.stl';
-    link.click();
+    prepareSTLExport(model, `${exportBaseName}.stl`);
   };
 
-  const downloadGCode = () => {
+  const download3MF = () => {
     if (!model) return;
-    const gcode = generateGCode(model);
-    const blob = new Blob([gcode], { type: 'text/plain' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = 'block_print.gcode';
-    link.click();
+    downloadBlob(export3MF(extractBodies(model)), `${exportBaseName}.3mf`);
+  };
+
+  const downloadOBJ = () => {
+    if (!model) return;
+    const { obj, mtl } = exportOBJ(extractBodies(model), `${exportBaseName}.mtl`);
+    downloadBlob(new Blob([obj], { type: 'text/plain' }), `${exportBaseName}.obj`);
+    downloadBlob(new Blob([mtl], { type: 'text/plain' }), `${exportBaseName}.mtl`);
+  };
+
+  const confirmSTLExport = () => {
+    if (!stlExport) return;
+    downloadSTL(stlExport.group, stlExport.filename);
+    setStlExport(null);
+  };
+
+  // G-code is only offered for settings the printer can actually lay down
+  const modelProblem = useMemo(() => model && gcodeModelProblem(model), [model]);
+  const gcodeProblem = modelProblem ?? gcodeSetupProblem(gcodeSettings, printerProfile);
+
+  const downloadGCode = () => {
+    if (!model || gcodeProblem) return;
+    const gcode = generateGCode(model, gcodeSettings, printerProfile);
+    downloadBlob(new Blob([gcode], { type: 'text/plain' }), `${exportBaseName}.gcode`);
   };
 
   return (
@@ -181,6 +614,29 @@ function App() {
 
       <main className="max-w-7xl mx-auto px-6 pb-24 relative mt-8">
 
+        {restorePrompt && (
+          <div className="usc-card rounded-2xl p-4 flex flex-wrap items-center justify-between gap-4">
+            <p className="text-sm text-gray-300">
+              <span className="font-bold text-usc-gold uppercase tracking-widest text-xs">Restore last session?</span>{' '}
+              {restorePrompt.project.sourceImage?.name ?? 'Your design'} was autosaved {new Date(restorePrompt.savedAt).toLocaleString()}.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={restoreSession}
+                className="px-4 py-2 rounded-lg text-[10px] font-bold text-white transition-all usc-btn-primary uppercase tracking-widest"
+              >
+                Restore
+              </button>
+              <button
+                onClick={discardSession}
+                className="px-4 py-2 rounded-lg text-[10px] font-bold transition-all usc-btn-secondary uppercase tracking-widest"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 mt-12">
           {/* Left Column: Controls */}
           <div className="lg:col-span-3 space-y-8">
@@ -210,6 +666,37 @@ function App() {
                   </span>
                 </div>
               </label>
+              {uploadedFile && !isEditingImage && (
+                <button
+                  onClick={() => setIsEditingImage(true)}
+                  disabled={isProcessing}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2.5 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-bold text-white transition-all usc-btn-secondary uppercase tracking-widest"
+                >
+                  <Crop className="w-4 h-4" />
+                  {isDefaultAdjustments(imageAdjustments) ? 'Adjust Image' : 'Edit Adjustments'}
+                </button>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={saveProject}
+                  disabled={isProcessing || isEmptyProject(project)}
+                  className="flex items-center justify-center gap-2 px-3 py-2.5 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-[10px] font-bold transition-all usc-btn-secondary uppercase tracking-widest"
+                >
+                  <Save className="w-3.5 h-3.5" />
+                  Save Project
+                </button>
+                <label className={`flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg text-[10px] font-bold transition-all usc-btn-secondary uppercase tracking-widest ${isProcessing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                  <input
+                    type="file"
+                    className="hidden"
+                    accept={PROJECT_EXTENSION}
+                    onChange={handleProjectOpen}
+                    disabled={isProcessing}
+                  />
+                  <FolderOpen className="w-3.5 h-3.5" />
+                  Open Project
+                </label>
+              </div>
               {error && <p className="text-xs text-red-400 mt-2">❌ {error}</p>}
             </section>
 
@@ -219,55 +706,95 @@ function App() {
                 <Sword className="w-5 h-5" /> 2. Print Specs
               </h2>
               <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Units</label>
+                  <div className="flex rounded-lg p-1 bg-usc-black/40 border border-usc-gold/20">
+                    {LENGTH_UNITS.map(unit => (
+                      <button
+                        key={unit}
+                        onClick={() => setLengthUnit(unit)}
+                        className={`px-3 py-1 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${lengthUnit === unit ? 'text-white bg-usc-cardinal' : 'text-gray-500 hover:text-usc-gold'}`}
+                      >
+                        {unit}
+                      </button>
+                    ))}
+                  </div>
+                </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Length (in)</label>
-                    <input
-                      type="number"
-                      min="0.5"
-                      max="20"
-                      step="0.5"
-                      value={dimensions.targetLengthInches}
-                      onChange={(e) => updateDimension('targetLengthInches', parseFloat(e.target.value) || 1)}
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Length ({lengthUnit})</label>
+                    <LengthInput
+                      valueMm={dimensions.targetLengthMm}
+                      unit={lengthUnit}
+                      minMm={10}
+                      maxMm={500}
+                      stepMm={5}
+                      onChange={(mm) => updateDimension('targetLengthMm', mm)}
                       className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
                       style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
                     />
                   </div>
                   <div>
-                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Width (in)</label>
-                    <input
-                      type="number"
-                      min="0.5"
-                      max="20"
-                      step="0.5"
-                      value={dimensions.targetWidthInches}
-                      onChange={(e) => updateDimension('targetWidthInches', parseFloat(e.target.value) || 1)}
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Width ({lengthUnit})</label>
+                    <LengthInput
+                      valueMm={dimensions.targetWidthMm}
+                      unit={lengthUnit}
+                      minMm={10}
+                      maxMm={500}
+                      stepMm={5}
+                      onChange={(mm) => updateDimension('targetWidthMm', mm)}
                       className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
                       style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
                     />
                   </div>
                   <div>
-                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Base (mm)</label>
-                    <input
-                      type="number"
-                      min="1"
-                      max="20"
-                      step="0.5"
-                      value={dimensions.baseThicknessMm}
-                      onChange={(e) => updateDimension('baseThicknessMm', parseFloat(e.target.value) || 1)}
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Base ({lengthUnit})</label>
+                    <LengthInput
+                      valueMm={dimensions.baseThicknessMm}
+                      unit={lengthUnit}
+                      minMm={1}
+                      maxMm={20}
+                      stepMm={0.5}
+                      onChange={(mm) => updateDimension('baseThicknessMm', mm)}
+                      className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                      style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Extrusion ({lengthUnit})</label>
+                    <LengthInput
+                      valueMm={dimensions.extrusionDepthMm}
+                      unit={lengthUnit}
+                      minMm={1}
+                      maxMm={20}
+                      stepMm={0.5}
+                      onChange={(mm) => updateDimension('extrusionDepthMm', mm)}
                       className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
                       style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
                     />
                   </div>
                   <div>
-                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Extrusion (mm)</label>
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Shoulder (°)</label>
                     <input
                       type="number"
-                      min="1"
-                      max="20"
-                      step="0.5"
-                      value={dimensions.extrusionDepthMm}
-                      onChange={(e) => updateDimension('extrusionDepthMm', parseFloat(e.target.value) || 1)}
+                      min="0"
+                      max="45"
+                      step="5"
+                      value={dimensions.shoulderAngleDeg}
+                      onChange={(e) => updateDimension('shoulderAngleDeg', Math.max(0, parseFloat(e.target.value) || 0))}
+                      className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                      style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Fillet ({lengthUnit})</label>
+                    <LengthInput
+                      valueMm={dimensions.shoulderFilletMm}
+                      unit={lengthUnit}
+                      minMm={0}
+                      maxMm={3}
+                      stepMm={0.25}
+                      onChange={(mm) => updateDimension('shoulderFilletMm', mm)}
                       className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
                       style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
                     />
@@ -290,6 +817,182 @@ function App() {
                   </div>
                   <p className="text-[10px] text-gray-500 mt-1 uppercase">Lower = Faster Processing</p>
                 </div>
+                <label className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={dimensions.mirrorForPrinting}
+                    onChange={(e) => updateMirroring(e.target.checked)}
+                    style={{ accentColor: 'var(--usc-gold)' }}
+                  />
+                  Mirror for Printing
+                </label>
+                <div className="pt-2 border-t border-usc-gold/10 space-y-3">
+                  <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-widest">Base Plate</label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Size</label>
+                      <select
+                        value={dimensions.plateFit}
+                        onChange={(e) => updateDimension('plateFit', e.target.value as PlateFit)}
+                        className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                        style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                      >
+                        <option value="target" className="bg-usc-black">Target Size</option>
+                        <option value="design" className="bg-usc-black">Fit Design</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Grip</label>
+                      <select
+                        value={dimensions.plateHandle}
+                        onChange={(e) => updateDimension('plateHandle', e.target.value as PlateHandle)}
+                        className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                        style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                      >
+                        <option value="none" className="bg-usc-black">None</option>
+                        <option value="knob" className="bg-usc-black">Knob</option>
+                        <option value="ridge" className="bg-usc-black">Ridge</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Margin ({lengthUnit})</label>
+                      <LengthInput
+                        valueMm={dimensions.plateMarginMm}
+                        unit={lengthUnit}
+                        minMm={0}
+                        maxMm={25}
+                        stepMm={1}
+                        onChange={(mm) => updateDimension('plateMarginMm', mm)}
+                        className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                        style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Corners ({lengthUnit})</label>
+                      <LengthInput
+                        valueMm={dimensions.plateCornerRadiusMm}
+                        unit={lengthUnit}
+                        minMm={0}
+                        maxMm={25}
+                        stepMm={1}
+                        onChange={(mm) => updateDimension('plateCornerRadiusMm', mm)}
+                        className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                        style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                      />
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={dimensions.hangingHole}
+                      onChange={(e) => updateDimension('hangingHole', e.target.checked)}
+                      style={{ accentColor: 'var(--usc-gold)' }}
+                    />
+                    Hanging Hole
+                  </label>
+                  <label className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={dimensions.engraveLabel}
+                      onChange={(e) => updateDimension('engraveLabel', e.target.checked)}
+                      style={{ accentColor: 'var(--usc-gold)' }}
+                    />
+                    Engrave Label on Back
+                  </label>
+                  {dimensions.plateHandle !== 'none' && (
+                    <p className="text-[10px] text-gray-500 uppercase">Grip stands off the back; print it with supports from another slicer</p>
+                  )}
+                </div>
+                <div className="pt-2 border-t border-usc-gold/10 space-y-3">
+                  <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-widest">Design Placement</label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Fit</label>
+                      <select
+                        value={dimensions.designFit}
+                        onChange={(e) => updateDimension('designFit', e.target.value as DesignFit)}
+                        className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                        style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                      >
+                        <option value="fit" className="bg-usc-black">Fit</option>
+                        <option value="fill" className="bg-usc-black">Fill &amp; Crop</option>
+                        <option value="stretch" className="bg-usc-black">Stretch</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Scale (%)</label>
+                      <input
+                        type="number"
+                        min="10"
+                        max="400"
+                        step="5"
+                        value={dimensions.designScalePercent}
+                        onChange={(e) => updateDimension('designScalePercent', Math.max(1, parseFloat(e.target.value) || 100))}
+                        className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                        style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Rotation (°)</label>
+                      <div className="flex gap-1.5">
+                        <input
+                          type="number"
+                          min="-180"
+                          max="180"
+                          step="1"
+                          value={dimensions.designRotationDeg}
+                          onChange={(e) => updateDimension('designRotationDeg', parseFloat(e.target.value) || 0)}
+                          className="w-full min-w-0 px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                          style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                        />
+                        <button
+                          onClick={() => updateDimension('designRotationDeg', ((dimensions.designRotationDeg + 90) % 360 + 360) % 360 - 180)}
+                          title="Turn 90° clockwise"
+                          className="px-2 rounded-lg text-usc-gold hover:bg-usc-red/30 transition-all"
+                          style={{ border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                        >
+                          <RotateCw className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Padding ({lengthUnit})</label>
+                      <LengthInput
+                        valueMm={dimensions.designPaddingMm}
+                        unit={lengthUnit}
+                        minMm={0}
+                        maxMm={25}
+                        stepMm={1}
+                        onChange={(mm) => updateDimension('designPaddingMm', mm)}
+                        className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                        style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Offset X ({lengthUnit})</label>
+                      <LengthInput
+                        valueMm={dimensions.designOffsetXMm}
+                        unit={lengthUnit}
+                        stepMm={0.5}
+                        onChange={(mm) => updateDimension('designOffsetXMm', mm)}
+                        className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                        style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Offset Y ({lengthUnit})</label>
+                      <LengthInput
+                        valueMm={dimensions.designOffsetYMm}
+                        unit={lengthUnit}
+                        stepMm={0.5}
+                        onChange={(mm) => updateDimension('designOffsetYMm', mm)}
+                        className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                        style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-[10px] text-gray-500 uppercase">Offsets are as seen on the paper; drag the design in the 3D view to move it</p>
+                </div>
                 <button
                   onClick={regenerateModel}
                   disabled={!svgString}
@@ -304,24 +1007,174 @@ function App() {
               <h2 className="text-lg font-bold text-usc-gold flex items-center gap-2 uppercase tracking-tight">
                 <Trophy className="w-5 h-5" /> 3. Export Files
               </h2>
+              <div className="space-y-4">
+                <PrinterProfileEditor
+                  profiles={printerProfiles}
+                  selectedId={printerProfile.id}
+                  lengthUnit={lengthUnit}
+                  onSelect={setSelectedProfileId}
+                  onProfilesChange={setPrinterProfiles}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Layer ({lengthUnit})</label>
+                    <LengthInput
+                      valueMm={gcodeSettings.layerHeight}
+                      unit={lengthUnit}
+                      minMm={0.05}
+                      maxMm={0.6}
+                      stepMm={0.05}
+                      onChange={(mm) => updateGcodeSetting('layerHeight', mm)}
+                      className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                      style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Line Width ({lengthUnit})</label>
+                    <LengthInput
+                      valueMm={gcodeSettings.lineWidth}
+                      unit={lengthUnit}
+                      minMm={0.1}
+                      maxMm={1.5}
+                      stepMm={0.05}
+                      onChange={(mm) => updateGcodeSetting('lineWidth', mm)}
+                      className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                      style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">1st Layer ({lengthUnit})</label>
+                    <LengthInput
+                      valueMm={gcodeSettings.firstLayerHeight}
+                      unit={lengthUnit}
+                      minMm={0.05}
+                      maxMm={0.6}
+                      stepMm={0.05}
+                      onChange={(mm) => updateGcodeSetting('firstLayerHeight', mm)}
+                      className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                      style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">1st Speed (mm/s)</label>
+                    <input
+                      type="number"
+                      min="5"
+                      max="200"
+                      step="5"
+                      value={gcodeSettings.firstLayerSpeed}
+                      onChange={(e) => updateGcodeSetting('firstLayerSpeed', parseFloat(e.target.value) || 20)}
+                      className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                      style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Pattern</label>
+                    <select
+                      value={gcodeSettings.infillPattern}
+                      onChange={(e) => updateGcodeSetting('infillPattern', e.target.value as InfillPattern)}
+                      className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                      style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                    >
+                      <option value="rectilinear" className="bg-usc-black">Rectilinear</option>
+                      <option value="grid" className="bg-usc-black">Grid</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Bottom Layers</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="20"
+                      step="1"
+                      value={gcodeSettings.solidBottomLayers}
+                      onChange={(e) => updateGcodeSetting('solidBottomLayers', parseInt(e.target.value) || 0)}
+                      className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                      style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Top Layers</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="20"
+                      step="1"
+                      value={gcodeSettings.solidTopLayers}
+                      onChange={(e) => updateGcodeSetting('solidTopLayers', Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                      style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Infill Density</label>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="range"
+                      min="0"
+                      max="100"
+                      step="5"
+                      value={gcodeSettings.infillDensity}
+                      onChange={(e) => updateGcodeSetting('infillDensity', parseInt(e.target.value) || 0)}
+                      className="flex-1 h-1.5 rounded-lg appearance-none cursor-pointer bg-usc-grey"
+                      style={{ accentColor: 'var(--usc-gold)' }}
+                    />
+                    <span className="text-sm font-bold text-usc-gold w-10 text-right">{gcodeSettings.infillDensity}%</span>
+                  </div>
+                  <p className="text-[10px] text-gray-500 mt-1 uppercase">Relief tops are always solid</p>
+                </div>
+              </div>
               <div className="grid grid-cols-1 gap-3">
                 <button
-                  onClick={downloadSTL}
+                  onClick={exportModelSTL}
                   disabled={!model}
                   className="flex items-center justify-center gap-2 px-4 py-3 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-bold transition-all usc-btn-secondary uppercase tracking-widest"
                 >
                   <Box className="w-4 h-4" />
                   Export STL
                 </button>
+                <div className="grid grid-cols-2 gap-3">
+                  <button
+                    onClick={download3MF}
+                    disabled={!model}
+                    className="flex items-center justify-center gap-2 px-3 py-2.5 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-[10px] font-bold transition-all usc-btn-secondary uppercase tracking-widest"
+                    title="Separate base and relief objects with colors, for multi-material printers"
+                  >
+                    <Box className="w-3.5 h-3.5" />
+                    3MF
+                  </button>
+                  <button
+                    onClick={downloadOBJ}
+                    disabled={!model}
+                    className="flex items-center justify-center gap-2 px-3 py-2.5 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-[10px] font-bold transition-all usc-btn-secondary uppercase tracking-widest"
+                    title="OBJ with an MTL material library"
+                  >
+                    <Box className="w-3.5 h-3.5" />
+                    OBJ + MTL
+                  </button>
+                </div>
                 <button
                   onClick={downloadGCode}
-                  disabled={!model}
+                  disabled={!model || !!gcodeProblem}
+                  title={gcodeProblem ?? undefined}
                   className="flex items-center justify-center gap-2 px-4 py-3 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-bold transition-all usc-btn-primary uppercase tracking-widest"
                 >
                   <FileCode className="w-4 h-4" />
                   Generate G-Code
                 </button>
               </div>
+              {model && gcodeProblem && (
+                <p className="text-[10px] text-red-400 uppercase">No G-code: {gcodeProblem}</p>
+              )}
+              {stlExport && (
+                <MeshReportPanel
+                  report={stlExport.report}
+                  filename={stlExport.filename}
+                  onDownload={confirmSTLExport}
+                  onCancel={() => setStlExport(null)}
+                />
+              )}
             </section>
 
             <div className="p-4 rounded-xl border border-usc-gold/10 bg-usc-black/40">
@@ -329,11 +1182,19 @@ function App() {
                 ⚔️ Current Config
               </h3>
               <ul className="text-[10px] text-gray-400 space-y-1 uppercase tracking-wider font-semibold">
-                <li>• Size: {dimensions.targetLengthInches}" × {dimensions.targetWidthInches}"</li>
-                <li>• Base: {dimensions.baseThicknessMm}mm</li>
-                <li>• Depth: {dimensions.extrusionDepthMm}mm</li>
+                <li>• Size: {formatLength(dimensions.targetLengthMm, lengthUnit)} × {formatLength(dimensions.targetWidthMm, lengthUnit)}</li>
+                <li>• Base: {formatLength(dimensions.baseThicknessMm, lengthUnit)}</li>
+                <li>• Depth: {formatLength(dimensions.extrusionDepthMm, lengthUnit)}</li>
                 <li>• Detail: {dimensions.curveSegments}</li>
-                <li>• Layer: 0.2mm</li>
+                <li>• Mirror: {dimensions.mirrorForPrinting ? 'On' : 'Off'}</li>
+                <li>• Shoulder: {dimensions.shoulderAngleDeg > 0 || dimensions.shoulderFilletMm > 0 ? `${dimensions.shoulderAngleDeg}° / ${formatLength(dimensions.shoulderFilletMm, lengthUnit)} fillet` : 'Straight'}</li>
+                <li>• Base: {dimensions.plateFit === 'design' ? 'Fit design' : 'Target size'}{dimensions.plateMarginMm > 0 ? `, ${formatLength(dimensions.plateMarginMm, lengthUnit)} margin` : ''}{dimensions.plateHandle !== 'none' ? `, ${dimensions.plateHandle}` : ''}</li>
+                {colorSeparation && activeLayer !== null && (
+                  <li>• Block: Color {activeLayer + 1} of {colorSeparation.layers.length}</li>
+                )}
+                <li>• Printer: {printerProfile.name}</li>
+                <li>• Layer: {formatLength(gcodeSettings.layerHeight, lengthUnit)}</li>
+                <li>• Infill: {gcodeSettings.infillDensity}% {gcodeSettings.infillPattern}</li>
               </ul>
             </div>
           </div>
@@ -366,6 +1227,16 @@ function App() {
                     <Box className="w-3.5 h-3.5" />
                     3D View
                   </button>
+                  <button
+                    onClick={() => setViewMode('print')}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${viewMode === 'print'
+                      ? 'text-white shadow-lg bg-usc-cardinal'
+                      : 'text-gray-500 hover:text-usc-gold'
+                      }`}
+                  >
+                    <Stamp className="w-3.5 h-3.5" />
+                    Print View
+                  </button>
                 </div>
               </div>
               <span className="text-[10px] text-usc-gold/80 uppercase tracking-[0.2em] font-black flex items-center gap-1">
@@ -373,21 +1244,36 @@ function App() {
               </span>
             </div>
 
-            {viewMode === '3d' ? (
-              <Preview3D model={model} />
+            {isEditingImage && uploadedFile ? (
+              <ImageEditor
+                key={uploadedFile.name + uploadedFile.lastModified}
+                image={uploadedFile}
+                adjustments={imageAdjustments}
+                onApply={applyImageAdjustments}
+                onCancel={cancelImageEditing}
+              />
+            ) : viewMode === '3d' ? (
+              <Preview3D
+                model={model}
+                mirrored={dimensions.mirrorForPrinting}
+                overlay={printabilityOverlays?.model}
+                designOffset={{ x: dimensions.designOffsetXMm, y: dimensions.designOffsetYMm }}
+                surfaceHeightMm={dimensions.baseThicknessMm + dimensions.extrusionDepthMm}
+                onDesignOffsetChange={moveDesign}
+              />
+            ) : viewMode === 'print' ? (
+              <ImpressionPreview model={model} />
             ) : (
               <PreviewSVG
                 svgString={svgString}
-                onSvgUpdate={(newSvg) => {
-                  setSvgString(newSvg);
-                  pushToHistory(newSvg);
-                  const newModel = create3DModel(newSvg, dimensions);
-                  setModel(newModel);
-                }}
+                dimensions={dimensions}
+                onSvgUpdate={applySvgEdit}
+                overlaySvg={printabilityOverlays?.svg}
+                lengthUnit={lengthUnit}
                 onUndo={undo}
                 onRedo={redo}
-                canUndo={historyIndex > 0}
-                canRedo={historyIndex < svgHistory.length - 1}
+                canUndo={canUndo(history)}
+                canRedo={canRedo(history)}
               />
             )}
           </div>
@@ -399,6 +1285,31 @@ function App() {
                 <Layers className="w-5 h-5" /> SVG Refinement
               </h2>
               <div className="space-y-4">
+                <div>
+                  <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">
+                    Vectorizer
+                  </label>
+                  <select
+                    value={vectorizer}
+                    onChange={(e) => {
+                      const nextVectorizer = e.target.value as VectorizerChoice;
+                      setVectorizer(nextVectorizer);
+                      reVectorize(undefined, nextVectorizer);
+                    }}
+                    className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                    style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                  >
+                    <option value="auto" className="bg-usc-black">Auto (Backend if running)</option>
+                    <option value="browser" className="bg-usc-black">Browser (Potrace)</option>
+                    <option value="backend" className="bg-usc-black">Local Backend (vtracer)</option>
+                  </select>
+                  {lastEngine && (
+                    <p className="text-[10px] text-gray-500 mt-1 uppercase">
+                      Last traced {lastEngine === 'browser' ? 'in browser' : 'by backend'}
+                    </p>
+                  )}
+                </div>
+
                 <div>
                   <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">
                     Segmentation Algorithm
@@ -422,10 +1333,26 @@ function App() {
                   </select>
                 </div>
 
+                <ThresholdPreview image={processedImage} options={vectorOptions} />
+
                 <div>
-                  <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">
-                    Threshold (B&W) {vectorOptions.manualThreshold ? '(Manual)' : '(Auto)'}
-                  </label>
+                  <div className="flex items-center justify-between mb-1.5">
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+                      Threshold (B&W) {vectorOptions.manualThreshold ? '(Manual)' : '(Auto)'}
+                    </label>
+                    {vectorOptions.manualThreshold && (
+                      <button
+                        onClick={() => {
+                          const nextOptions = { ...vectorOptions, manualThreshold: false };
+                          setVectorOptions(nextOptions);
+                          reVectorize(nextOptions);
+                        }}
+                        className="text-[10px] font-bold text-usc-gold hover:text-white uppercase tracking-widest transition-colors"
+                      >
+                        Reset to Otsu
+                      </button>
+                    )}
+                  </div>
                   <div className="flex items-center gap-2">
                     <button
                       onClick={() => {
@@ -451,6 +1378,7 @@ function App() {
                       }))}
                       onMouseUp={() => reVectorize()}
                       onTouchEnd={() => reVectorize()}
+                      onKeyUp={() => reVectorize()}
                       className="flex-1 h-1.5 rounded-lg appearance-none cursor-pointer bg-usc-grey"
                       style={{ accentColor: 'var(--usc-gold)' }}
                     />
@@ -517,12 +1445,245 @@ function App() {
 
                 <div className="pt-2 border-t border-usc-gold/10 flex items-center justify-between">
                   <span className="text-[10px] text-gray-500 uppercase font-bold tracking-widest">
-                    Auto-updating on release
+                    Live preview · traces on release
                   </span>
                   {isProcessing && <Loader2 className="w-3.5 h-3.5 text-usc-gold animate-spin" />}
                 </div>
               </div>
             </section>
+
+            <section className="space-y-4 usc-card rounded-2xl p-6">
+              <h2 className="text-lg font-bold text-usc-gold flex items-center gap-2 uppercase tracking-tight">
+                <TriangleAlert className="w-5 h-5" /> Printability
+              </h2>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Min Feature ({lengthUnit})</label>
+                  <LengthInput
+                    valueMm={minFeatureMm}
+                    unit={lengthUnit}
+                    minMm={0.1}
+                    maxMm={2}
+                    stepMm={0.05}
+                    onChange={setMinFeatureMm}
+                    className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                    style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                  />
+                </div>
+                <button
+                  onClick={() => svgString && checkPrintability(svgString)}
+                  disabled={!svgString || activeLayer !== null}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2.5 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-bold text-white transition-all usc-btn-secondary uppercase tracking-widest"
+                >
+                  <TriangleAlert className="w-4 h-4" /> Check Printability
+                </button>
+                {activeLayer !== null && (
+                  <p className="text-[10px] text-gray-500 uppercase">Checks the single-block design</p>
+                )}
+                {printability && activeLayer === null && (
+                  printability.report && (printability.report.thinInk.length > 0 || printability.report.narrowGaps.length > 0) ? (
+                    <div className="space-y-3">
+                      <ul className="text-[10px] font-bold uppercase tracking-widest space-y-1">
+                        <li className="flex items-center gap-2 text-gray-300">
+                          <span className="w-2.5 h-2.5 rounded-sm bg-red-500" />
+                          {printability.report.thinInk.length} too thin
+                        </li>
+                        <li className="flex items-center gap-2 text-gray-300">
+                          <span className="w-2.5 h-2.5 rounded-sm bg-blue-500" />
+                          {printability.report.narrowGaps.length} gaps too narrow
+                        </li>
+                      </ul>
+                      <label className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={showPrintability}
+                          onChange={(e) => setShowPrintability(e.target.checked)}
+                          style={{ accentColor: 'var(--usc-gold)' }}
+                        />
+                        Highlight in Previews
+                      </label>
+                      <div className="grid grid-cols-3 gap-2">
+                        <button
+                          onClick={() => fixPrintability('thicken')}
+                          disabled={printability.report.thinInk.length === 0}
+                          className="px-2 py-2 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-[10px] font-bold text-white transition-all usc-btn-secondary uppercase tracking-widest"
+                        >
+                          Thicken
+                        </button>
+                        <button
+                          onClick={() => fixPrintability('remove')}
+                          disabled={printability.report.thinInk.length === 0}
+                          className="px-2 py-2 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-[10px] font-bold text-white transition-all usc-btn-secondary uppercase tracking-widest"
+                        >
+                          Remove
+                        </button>
+                        <button
+                          onClick={() => fixPrintability('close')}
+                          disabled={printability.report.narrowGaps.length === 0}
+                          className="px-2 py-2 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-[10px] font-bold text-white transition-all usc-btn-secondary uppercase tracking-widest"
+                        >
+                          Close Gaps
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-[10px] font-bold text-usc-gold uppercase tracking-widest">
+                      Everything is at least {formatLength(minFeatureMm, lengthUnit)} wide
+                    </p>
+                  )
+                )}
+              </div>
+            </section>
+
+            <section className="space-y-4 usc-card rounded-2xl p-6">
+              <h2 className="text-lg font-bold text-usc-gold flex items-center gap-2 uppercase tracking-tight">
+                <Palette className="w-5 h-5" /> Color Reduction
+              </h2>
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Colors</label>
+                    <input
+                      type="number"
+                      min="2"
+                      max="8"
+                      step="1"
+                      value={reductionSettings.colorCount}
+                      onChange={(e) => updateReductionSetting('colorCount', Math.min(8, Math.max(2, parseInt(e.target.value) || 2)))}
+                      className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                      style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest">Separate By</label>
+                    <select
+                      value={reductionSettings.mode}
+                      onChange={(e) => updateReductionSetting('mode', e.target.value as SeparationMode)}
+                      className="w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all"
+                      style={{ background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' }}
+                    >
+                      <option value="tones" className="bg-usc-black">Tones</option>
+                      <option value="colors" className="bg-usc-black">Colors</option>
+                    </select>
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={reductionSettings.overprint}
+                    onChange={(e) => updateReductionSetting('overprint', e.target.checked)}
+                    style={{ accentColor: 'var(--usc-gold)' }}
+                  />
+                  Overprint Darker Colors
+                </label>
+                <p className="text-[10px] text-gray-500 uppercase">Lightest color is the paper · traced in browser</p>
+                <button
+                  onClick={runSeparation}
+                  disabled={!processedImage || isProcessing}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2.5 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-bold text-white transition-all usc-btn-secondary uppercase tracking-widest"
+                >
+                  <Palette className="w-4 h-4" /> Separate Colors
+                </button>
+
+                {colorSeparation && (
+                  <>
+                    <ReductionPreview key={colorSeparation.layers.map(layer => layer.color).join()} separation={colorSeparation} />
+                    <ul className="space-y-2">
+                      {colorSeparation.layers.map((layer, index) => (
+                        <li
+                          key={index}
+                          className={`flex items-center gap-2 px-2 py-1.5 rounded-lg border ${activeLayer === index ? 'border-usc-gold/60 bg-usc-black/60' : 'border-usc-gold/10'}`}
+                        >
+                          <span className="w-4 h-4 rounded-sm border border-white/20" style={{ backgroundColor: layer.color }} />
+                          <span className="flex-1 text-[10px] font-bold text-gray-300 uppercase tracking-widest">
+                            {index + 1}. {layer.color} · {Math.round(layer.coverage * 100)}%
+                          </span>
+                          <button
+                            onClick={() => showLayer(index)}
+                            className="p-1 rounded-md hover:bg-usc-cardinal/20 text-usc-gold transition-colors"
+                            title="Show this block in 3D"
+                          >
+                            <Eye className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => prepareSTLExport(createLayerModel(colorSeparation, index), `block_print_color_${index + 1}.stl`)}
+                            className="p-1 rounded-md hover:bg-usc-gold/20 text-usc-gold transition-colors"
+                            title="Export this block as STL"
+                          >
+                            <Download className="w-3.5 h-3.5" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="grid grid-cols-2 gap-3">
+                      <button
+                        onClick={() => prepareSTLExport(createRegistrationJig(dimensions, colorSeparation), 'registration_jig.stl')}
+                        className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-[10px] font-bold transition-all usc-btn-secondary uppercase tracking-widest"
+                      >
+                        <Box className="w-3.5 h-3.5" /> Jig STL
+                      </button>
+                      <button
+                        onClick={showSingleBlock}
+                        disabled={activeLayer === null || !svgString}
+                        className="flex items-center justify-center gap-2 px-3 py-2 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-[10px] font-bold transition-all usc-btn-secondary uppercase tracking-widest"
+                      >
+                        Single Block
+                      </button>
+                    </div>
+                    <p className="text-[10px] text-gray-500 uppercase">
+                      Print lightest first · push each block into the jig corner
+                    </p>
+                  </>
+                )}
+              </div>
+            </section>
+
+            <section className="space-y-4 usc-card rounded-2xl p-6">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-bold text-usc-gold flex items-center gap-2 uppercase tracking-tight">
+                  <History className="w-5 h-5" /> History
+                </h2>
+                <div className="flex gap-1">
+                  <button
+                    onClick={undo}
+                    disabled={!canUndo(history)}
+                    className="p-1.5 rounded-md text-usc-gold hover:bg-usc-cardinal/20 disabled:text-gray-600 disabled:cursor-not-allowed transition-all"
+                    title="Undo (Ctrl+Z)"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={redo}
+                    disabled={!canRedo(history)}
+                    className="p-1.5 rounded-md text-usc-gold hover:bg-usc-cardinal/20 disabled:text-gray-600 disabled:cursor-not-allowed transition-all"
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    <Redo2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              {history.commands.length === 0 ? (
+                <p className="text-[10px] text-gray-500 uppercase">Edits, dimension changes and traces show up here</p>
+              ) : (
+                <ol className="max-h-64 overflow-y-auto space-y-1">
+                  {['Start', ...history.commands.map(command => command.label)].map((label, position) => (
+                    <li key={position}>
+                      <button
+                        onClick={() => travel(position)}
+                        className={`w-full text-left px-3 py-1.5 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${position === history.position
+                          ? 'text-white bg-usc-cardinal'
+                          : position < history.position
+                            ? 'text-gray-300 hover:text-usc-gold'
+                            : 'text-gray-600 hover:text-usc-gold'
+                          }`}
+                      >
+                        {label}
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
           </div>
         </div>
       </main>
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Crop, RotateCcw, RotateCw, Wand2 } from 'lucide-react';
+import { adjustPixels, DEFAULT_IMAGE_ADJUSTMENTS, FULL_CROP, rotateImage, totalRotation } from '../utils/ImageAdjustments';
+import type { CropRect, ImageAdjustments } from '../utils/ImageAdjustments';
+
+// Longest side of the editing preview
+const PREVIEW_SIZE = 640;
+// Crops smaller than this fraction of the image are treated as a click, not a drag
+const MIN_CROP = 0.02;
+
+interface ImageEditorProps {
+    image: Blob;
+    adjustments: ImageAdjustments;
+    onApply: (adjustments: ImageAdjustments) => void;
+    onCancel: () => void;
+}
+
+type NumericAdjustment = 'rotation' | 'brightness' | 'contrast' | 'levelsBlack' | 'levelsWhite' | 'gamma';
+
+const SLIDERS: { key: NumericAdjustment; label: string; min: number; max: number; step: number }[] = [
+    { key: 'rotation', label: 'Straighten', min: -45, max: 45, step: 0.5 },
+    { key: 'brightness', label: 'Brightness', min: -100, max: 100, step: 1 },
+    { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+    { key: 'levelsBlack', label: 'Black Point', min: 0, max: 254, step: 1 },
+    { key: 'levelsWhite', label: 'White Point', min: 1, max: 255, step: 1 },
+    { key: 'gamma', label: 'Midtones', min: 0.2, max: 3, step: 0.05 },
+];
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ image, adjustments, onApply, onCancel }) => {
+    const [draft, setDraft] = useState<ImageAdjustments>(adjustments);
+    const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+    const [cropDrag, setCropDrag] = useState<{ x: number; y: number } | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        createImageBitmap(image)
+            .then(result => {
+                if (!cancelled) setBitmap(result);
+            })
+            .catch(error => console.warn('[ImageEditor] Could not decode image:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [image]);
+
+    // Show the whole rotated image with tone changes; the crop is drawn as an overlay
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !bitmap) return;
+        const preview = adjustPixels(rotateImage(bitmap, totalRotation(draft), PREVIEW_SIZE), draft);
+        canvas.width = preview.width;
+        canvas.height = preview.height;
+        canvas.getContext('2d')?.drawImage(preview, 0, 0);
+    }, [bitmap, draft]);
+
+    const update = <K extends keyof ImageAdjustments>(key: K, value: ImageAdjustments[K]) => {
+        setDraft(prev => ({ ...prev, [key]: value }));
+    };
+
+    const pointerToFraction = (e: React.MouseEvent) => {
+        const rect = canvasRef.current!.getBoundingClientRect();
+        return {
+            x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+            y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+        };
+    };
+
+    const handleMouseDown = (e: React.MouseEvent) => {
+        setCropDrag(pointerToFraction(e));
+    };
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        if (!cropDrag) return;
+        const point = pointerToFraction(e);
+        const crop: CropRect = {
+            x: Math.min(cropDrag.x, point.x),
+            y: Math.min(cropDrag.y, point.y),
+            width: Math.abs(point.x - cropDrag.x),
+            height: Math.abs(point.y - cropDrag.y),
+        };
+        if (crop.width >= MIN_CROP && crop.height >= MIN_CROP) update('crop', crop);
+    };
+
+    const turn = (direction: 1 | -1) => {
+        // Quarter turns would leave a stale crop pointing at the wrong part of the image
+        setDraft(prev => ({ ...prev, quarterTurns: (prev.quarterTurns + direction + 4) % 4, crop: FULL_CROP }));
+    };
+
+    const isCropped = draft.crop.width < 1 || draft.crop.height < 1;
+
+    return (
+        <div
+            className="w-full rounded-2xl overflow-hidden shadow-2xl p-4 space-y-4 bg-slate-900/40"
+            style={{
+                border: '1px solid rgba(255, 204, 0, 0.2)',
+                boxShadow: '0 0 30px rgba(0, 0, 0, 0.3)'
+            }}
+        >
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-bold text-usc-gold uppercase tracking-widest flex items-center gap-2">
+                    <Crop className="w-4 h-4" /> Prepare Image
+                </h3>
+                <div className="flex gap-2">
+                    <button onClick={() => turn(-1)} className="p-1.5 rounded-md text-usc-gold hover:bg-slate-700 transition-all" title="Rotate Left">
+                        <RotateCcw className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => turn(1)} className="p-1.5 rounded-md text-usc-gold hover:bg-slate-700 transition-all" title="Rotate Right">
+                        <RotateCw className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div
+                className="h-[320px] rounded-lg bg-white flex items-center justify-center select-none"
+                onMouseUp={() => setCropDrag(null)}
+                onMouseLeave={() => setCropDrag(null)}
+            >
+                <div className="relative max-w-full max-h-full cursor-crosshair" onMouseDown={handleMouseDown} onMouseMove={handleMouseMove}>
+                    <canvas ref={canvasRef} className="block max-w-full max-h-[320px]" />
+                    {isCropped && (
+                        <div
+                            className="absolute border-2 border-usc-gold pointer-events-none"
+                            style={{
+                                left: `${draft.crop.x * 100}%`,
+                                top: `${draft.crop.y * 100}%`,
+                                width: `${draft.crop.width * 100}%`,
+                                height: `${draft.crop.height * 100}%`,
+                                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+                            }}
+                        />
+                    )}
+                </div>
+            </div>
+            <p className="text-[10px] text-gray-500 uppercase font-bold tracking-widest">Drag on the image to crop</p>
+
+            <div className="grid grid-cols-2 gap-x-6 gap-y-3">
+                {SLIDERS.map(slider => {
+                    const value = draft[slider.key];
+                    return (
+                        <div key={slider.key}>
+                            <label className="block text-[10px] font-bold text-gray-400 mb-1 uppercase tracking-widest">{slider.label}</label>
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="range"
+                                    min={slider.min}
+                                    max={slider.max}
+                                    step={slider.step}
+                                    value={value}
+                                    onChange={(e) => update(slider.key, parseFloat(e.target.value))}
+                                    className="flex-1 h-1.5 rounded-lg appearance-none cursor-pointer bg-usc-grey"
+                                    style={{ accentColor: 'var(--usc-gold)' }}
+                                />
+                                <span className="text-xs font-bold text-usc-gold w-10 text-right">{value}</span>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="flex items-center gap-6">
+                <label className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest cursor-pointer">
+                    <input type="checkbox" checked={draft.invert} onChange={(e) => update('invert', e.target.checked)} style={{ accentColor: 'var(--usc-gold)' }} />
+                    Invert
+                </label>
+                <label className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest cursor-pointer">
+                    <input type="checkbox" checked={draft.denoise} onChange={(e) => update('denoise', e.target.checked)} style={{ accentColor: 'var(--usc-gold)' }} />
+                    Denoise
+                </label>
+            </div>
+
+            <div className="flex gap-3">
+                <button
+                    onClick={() => setDraft(DEFAULT_IMAGE_ADJUSTMENTS)}
+                    className="px-4 py-2.5 rounded-lg text-xs font-bold transition-all usc-btn-secondary uppercase tracking-widest"
+                >
+                    Reset
+                </button>
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-2.5 rounded-lg text-xs font-bold transition-all usc-btn-secondary uppercase tracking-widest"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onApply(draft)}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-xs font-bold transition-all usc-btn-primary uppercase tracking-widest"
+                >
+                    <Wand2 className="w-4 h-4" /> Apply & Vectorize
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ImageEditor;
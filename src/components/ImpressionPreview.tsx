@@ -0,0 +1,82 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Stamp } from 'lucide-react';
+import * as THREE from 'three';
+import { DEFAULT_IMPRESSION_STYLE, printingFace, renderImpression } from '../utils/Impression';
+import type { ImpressionStyle } from '../utils/Impression';
+
+interface ImpressionPreviewProps {
+    model: THREE.Group | null;
+}
+
+const ImpressionPreview: React.FC<ImpressionPreviewProps> = ({ model }) => {
+    const [style, setStyle] = useState<ImpressionStyle>(DEFAULT_IMPRESSION_STYLE);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    // Only the geometry decides the face; restyling just repaints it
+    const face = useMemo(() => (model ? printingFace(model) : null), [model]);
+
+    useEffect(() => {
+        if (canvasRef.current && face) renderImpression(canvasRef.current, face, style);
+    }, [face, style]);
+
+    return (
+        <div
+            className="w-full h-[500px] rounded-2xl overflow-hidden shadow-2xl relative bg-usc-black/20 flex items-center justify-center p-8"
+            style={{
+                border: '1px solid rgba(255, 204, 0, 0.2)',
+                boxShadow: '0 0 30px rgba(0, 0, 0, 0.3)'
+            }}
+        >
+            {face && (
+                <>
+                    <canvas ref={canvasRef} className="max-w-full max-h-full object-contain shadow-xl" />
+                    <div className="absolute top-4 left-4 z-10 flex flex-col gap-2 rounded-lg p-3 bg-usc-black/70 border border-usc-gold/20">
+                        <label className="flex items-center justify-between gap-3 text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                            Ink
+                            <input
+                                type="color"
+                                value={style.inkColor}
+                                onChange={(e) => setStyle(prev => ({ ...prev, inkColor: e.target.value }))}
+                                className="w-8 h-5 bg-transparent border-0 cursor-pointer"
+                            />
+                        </label>
+                        <label className="flex items-center justify-between gap-3 text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                            Paper
+                            <input
+                                type="color"
+                                value={style.paperColor}
+                                onChange={(e) => setStyle(prev => ({ ...prev, paperColor: e.target.value }))}
+                                className="w-8 h-5 bg-transparent border-0 cursor-pointer"
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1 text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                            <span className="flex justify-between">
+                                Ink Variation
+                                <span className="text-usc-gold">{Math.round(style.variability * 100)}%</span>
+                            </span>
+                            <input
+                                type="range"
+                                min="0"
+                                max="1"
+                                step="0.05"
+                                value={style.variability}
+                                onChange={(e) => setStyle(prev => ({ ...prev, variability: parseFloat(e.target.value) }))}
+                                className="w-32 h-1.5 rounded-lg appearance-none cursor-pointer bg-usc-grey"
+                                style={{ accentColor: 'var(--usc-gold)' }}
+                            />
+                        </label>
+                    </div>
+                </>
+            )}
+            {!face && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+                    <Stamp className="w-16 h-16 text-usc-gold/20 mb-4" />
+                    <p className="text-lg font-bold text-usc-gold/50 uppercase tracking-widest">{model ? 'Nothing To Print' : 'Awaiting Design Upload'}</p>
+                    <p className="text-[10px] text-usc-cardinal font-bold mt-1 uppercase tracking-[0.2em]">Fight On!</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ImpressionPreview;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { fromUnit, toUnit, unitStep } from '../utils/Units';
+import type { LengthUnit } from '../utils/Units';
+
+interface LengthInputProps {
+    valueMm: number;
+    unit: LengthUnit;           // Unit the length is shown and typed in
+    minMm?: number;
+    maxMm?: number;
+    stepMm: number;
+    onChange: (mm: number) => void;
+    className?: string;
+    style?: React.CSSProperties;
+}
+
+/**
+ * Number input for a length kept in mm. What is typed stays as typed until the
+ * field loses focus, so a value like 0.3 cm can be entered through its leading
+ * 0: only values inside the range are passed on while typing, and the range is
+ * enforced when the user leaves the field.
+ */
+const LengthInput: React.FC<LengthInputProps> = ({ valueMm, unit, minMm, maxMm, stepMm, onChange, className, style }) => {
+    const [draft, setDraft] = useState<string | null>(null);
+    const clamp = (mm: number) => Math.min(maxMm ?? Infinity, Math.max(minMm ?? -Infinity, mm));
+
+    const handleChange = (text: string) => {
+        setDraft(text);
+        const mm = fromUnit(parseFloat(text), unit);
+        if (!Number.isNaN(mm) && clamp(mm) === mm) onChange(mm);
+    };
+
+    // An empty or unreadable entry goes back to the stored value
+    const handleBlur = () => {
+        const mm = draft === null ? NaN : fromUnit(parseFloat(draft), unit);
+        if (!Number.isNaN(mm) && clamp(mm) !== mm) onChange(clamp(mm));
+        setDraft(null);
+    };
+
+    return (
+        <input
+            type="number"
+            min={minMm !== undefined ? toUnit(minMm, unit) : undefined}
+            max={maxMm !== undefined ? toUnit(maxMm, unit) : undefined}
+            step={unitStep(stepMm, unit)}
+            value={draft ?? toUnit(valueMm, unit)}
+            onChange={(e) => handleChange(e.target.value)}
+            onBlur={handleBlur}
+            className={className}
+            style={style}
+        />
+    );
+};
+
+export default LengthInput;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Download, Wrench } from 'lucide-react';
+import { isWatertight } from '../utils/MeshValidation';
+import type { MeshReport } from '../utils/MeshValidation';
+
+interface MeshReportPanelProps {
+    report: MeshReport;
+    filename: string;
+    onDownload: () => void;
+    onCancel: () => void;
+}
+
+const MeshReportPanel: React.FC<MeshReportPanelProps> = ({ report, filename, onDownload, onCancel }) => {
+    const watertight = isWatertight(report);
+
+    // Repairs that were applied, then problems that are still there
+    const repairs: [string, number][] = [
+        ['Vertices welded', report.weldedVertices],
+        ['Degenerate faces removed', report.degenerateTriangles],
+        ['Faces re-wound', report.rewoundTriangles],
+        ['Inverted islands flipped', report.invertedIslands],
+    ];
+    const problems: [string, number][] = [
+        ['Open boundary edges', report.boundaryEdges],
+        ['Non-manifold edges', report.nonManifoldEdges],
+    ];
+
+    return (
+        <div className="space-y-3 p-4 rounded-xl border border-usc-gold/20 bg-usc-black/40">
+            <div className={`flex items-center gap-2 text-xs font-bold uppercase tracking-widest ${watertight ? 'text-usc-gold' : 'text-red-400'}`}>
+                {watertight ? <CheckCircle2 className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+                {watertight ? 'Mesh is watertight' : 'Mesh has open or shared edges'}
+            </div>
+            <ul className="text-[10px] text-gray-400 space-y-1 uppercase tracking-wider font-semibold">
+                <li>• Triangles: {report.triangles.toLocaleString()}</li>
+                <li>• Islands: {report.islands}</li>
+                {repairs.filter(([, count]) => count > 0).map(([label, count]) => (
+                    <li key={label} className="flex items-center gap-1.5">
+                        <Wrench className="w-3 h-3 text-usc-gold" /> {label}: {count.toLocaleString()}
+                    </li>
+                ))}
+                {problems.map(([label, count]) => (
+                    <li key={label} className={count > 0 ? 'text-red-400' : ''}>• {label}: {count.toLocaleString()}</li>
+                ))}
+            </ul>
+            <div className="flex gap-3">
+                <button
+                    onClick={onCancel}
+                    className="px-3 py-2 rounded-lg text-[10px] font-bold transition-all usc-btn-secondary uppercase tracking-widest"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={onDownload}
+                    className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-[10px] font-bold transition-all usc-btn-primary uppercase tracking-widest"
+                    title={filename}
+                >
+                    <Download className="w-3.5 h-3.5" />
+                    {watertight ? 'Download STL' : 'Download Anyway'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default MeshReportPanel;
@@ -1,14 +1,126 @@
-import React, { Suspense } from 'react';
-import { Shield } from 'lucide-react';
+import React, { Suspense, useRef, useState } from 'react';
+import { Shield, FlipHorizontal2, Move } from 'lucide-react';
 import { Canvas } from '@react-three/fiber';
+import type { ThreeEvent } from '@react-three/fiber';
 import { OrbitControls, Stage, PerspectiveCamera } from '@react-three/drei';
 import * as THREE from 'three';
 
 interface Preview3DProps {
     model: THREE.Group | null;
+    mirrored?: boolean;     // Whether the model was mirrored for printing
+    overlay?: THREE.Object3D | null;    // Markers in the model's frame, e.g. printability highlights
+    designOffset?: Offset;              // Where the design's center sits on the plate, in mm as seen on the paper
+    surfaceHeightMm?: number;           // Height of the printing face, where the move handle rides
+    onDesignOffsetChange?: (offset: Offset) => void;    // Lets the design be dragged around the plate
 }
 
-const Preview3D: React.FC<Preview3DProps> = ({ model }) => {
+type Offset = { x: number; y: number };
+
+// Size of the move handle on the block
+const HANDLE_RADIUS_MM = 8;
+// Dragged offsets are rounded to this
+const HANDLE_STEP_MM = 0.1;
+
+interface PlacementHandleProps {
+    offset: Offset;
+    mirrored: boolean;
+    heightMm: number;
+    onMove: (offset: Offset) => void;
+    onDraggingChange: (dragging: boolean) => void;
+}
+
+/**
+ * A handle on the printing face that drags the design's offset. It follows the
+ * pointer over the face while dragging, and only reports where it was let go.
+ */
+const PlacementHandle: React.FC<PlacementHandleProps> = ({ offset, mirrored, heightMm, onMove, onDraggingChange }) => {
+    const groupRef = useRef<THREE.Group>(null);
+    const grabRef = useRef<{ pointer: THREE.Vector3; offset: Offset } | null>(null);
+    const [dragged, setDragged] = useState<Offset | null>(null);
+    const current = dragged ?? offset;
+    // The block is mirrored in X, while offsets are as seen on the paper
+    const mirrorX = mirrored ? -1 : 1;
+
+    // Where the pointer's ray meets the printing face, in the block's own frame
+    const pointOnFace = (e: ThreeEvent<PointerEvent>) => {
+        const group = groupRef.current;
+        if (!group) return null;
+        const ray = e.ray.clone().applyMatrix4(group.matrixWorld.clone().invert());
+        return ray.intersectPlane(new THREE.Plane(new THREE.Vector3(0, 0, 1), -heightMm), new THREE.Vector3());
+    };
+
+    const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+        const pointer = pointOnFace(e);
+        if (!pointer) return;
+        e.stopPropagation();
+        (e.target as Element).setPointerCapture(e.pointerId);
+        grabRef.current = { pointer, offset: current };
+        onDraggingChange(true);
+    };
+
+    const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+        const grab = grabRef.current;
+        const pointer = grab && pointOnFace(e);
+        if (!grab || !pointer) return;
+        e.stopPropagation();
+        const round = (value: number) => Math.round(value / HANDLE_STEP_MM) * HANDLE_STEP_MM;
+        setDragged({
+            x: round(grab.offset.x + (pointer.x - grab.pointer.x) * mirrorX),
+            y: round(grab.offset.y + pointer.y - grab.pointer.y),
+        });
+    };
+
+    const handlePointerUp = (e: ThreeEvent<PointerEvent>) => {
+        if (!grabRef.current) return;
+        e.stopPropagation();
+        (e.target as Element).releasePointerCapture(e.pointerId);
+        grabRef.current = null;
+        onDraggingChange(false);
+        if (dragged) onMove(dragged);
+        setDragged(null);
+    };
+
+    return (
+        <group ref={groupRef} rotation={[-Math.PI / 2, 0, 0]}>
+            <group position={[current.x * mirrorX, current.y, heightMm + 0.2]}>
+                <mesh
+                    renderOrder={10}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                >
+                    <circleGeometry args={[HANDLE_RADIUS_MM, 48]} />
+                    <meshBasicMaterial color="#ffcc00" transparent opacity={dragged ? 0.4 : 0.2} depthTest={false} />
+                </mesh>
+                <mesh renderOrder={11} raycast={() => null}>
+                    <ringGeometry args={[HANDLE_RADIUS_MM * 0.85, HANDLE_RADIUS_MM, 48]} />
+                    <meshBasicMaterial color="#ffcc00" depthTest={false} />
+                </mesh>
+                <mesh renderOrder={11} raycast={() => null}>
+                    <planeGeometry args={[HANDLE_RADIUS_MM, HANDLE_RADIUS_MM * 0.12]} />
+                    <meshBasicMaterial color="#ffcc00" depthTest={false} />
+                </mesh>
+                <mesh renderOrder={11} raycast={() => null}>
+                    <planeGeometry args={[HANDLE_RADIUS_MM * 0.12, HANDLE_RADIUS_MM]} />
+                    <meshBasicMaterial color="#ffcc00" depthTest={false} />
+                </mesh>
+            </group>
+        </group>
+    );
+};
+
+type PreviewSide = 'block' | 'impression';
+
+const Preview3D: React.FC<Preview3DProps> = ({ model, mirrored = true, overlay, designOffset, surfaceHeightMm = 0, onDesignOffsetChange }) => {
+    const [side, setSide] = useState<PreviewSide>('block');
+    const [isPlacing, setIsPlacing] = useState(false);
+    // The camera holds still while the design is dragged
+    const [isDragging, setIsDragging] = useState(false);
+    const canPlace = Boolean(designOffset && onDesignOffsetChange);
+
+    // The impression is the block reflected onto the paper
+    const readsCorrectly = (side === 'impression') === mirrored;
+
     return (
         <div
             className="w-full h-[500px] rounded-2xl overflow-hidden shadow-2xl relative bg-usc-black/20"
@@ -21,11 +133,59 @@ const Preview3D: React.FC<Preview3DProps> = ({ model }) => {
                 <Suspense fallback={null}>
                     <PerspectiveCamera makeDefault position={[0, 150, 200]} fov={50} />
                     <Stage environment="city" intensity={0.6} shadows={{ type: 'contact', opacity: 0.5, blur: 2 }}>
-                        {model && <primitive object={model} />}
+                        {model && (
+                            <group scale={[side === 'impression' ? -1 : 1, 1, 1]}>
+                                <primitive object={model} />
+                                {overlay && <primitive object={overlay} />}
+                                {isPlacing && designOffset && onDesignOffsetChange && (
+                                    <PlacementHandle
+                                        offset={designOffset}
+                                        mirrored={mirrored}
+                                        heightMm={surfaceHeightMm}
+                                        onMove={onDesignOffsetChange}
+                                        onDraggingChange={setIsDragging}
+                                    />
+                                )}
+                            </group>
+                        )}
                     </Stage>
-                    <OrbitControls makeDefault minPolarAngle={0} maxPolarAngle={Math.PI / 2} />
+                    <OrbitControls makeDefault enabled={!isDragging} minPolarAngle={0} maxPolarAngle={Math.PI / 2} />
                 </Suspense>
             </Canvas>
+            {model && (
+                <div className="absolute top-4 left-4 z-10 flex flex-col items-start gap-2">
+                    <div className="flex rounded-lg p-1 bg-usc-black/70 border border-usc-gold/20">
+                        <button
+                            onClick={() => setSide('block')}
+                            className={`px-3 py-1.5 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${side === 'block' ? 'text-white bg-usc-cardinal' : 'text-gray-500 hover:text-usc-gold'}`}
+                        >
+                            Block
+                        </button>
+                        <button
+                            onClick={() => setSide('impression')}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${side === 'impression' ? 'text-white bg-usc-cardinal' : 'text-gray-500 hover:text-usc-gold'}`}
+                        >
+                            <FlipHorizontal2 className="w-3.5 h-3.5" />
+                            Impression
+                        </button>
+                    </div>
+                    <p className={`px-2 py-1 rounded-md bg-usc-black/70 text-[10px] font-bold uppercase tracking-widest ${readsCorrectly ? 'text-usc-gold' : 'text-gray-400'}`}>
+                        {side === 'block'
+                            ? (mirrored ? 'Printing block · mirrored' : 'Printing block · not mirrored')
+                            : (mirrored ? 'Impression on paper · reads correctly' : 'Impression on paper · reads backwards')}
+                    </p>
+                    {canPlace && (
+                        <button
+                            onClick={() => setIsPlacing(!isPlacing)}
+                            title="Drag the handle on the block to move the design"
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest border border-usc-gold/20 transition-all ${isPlacing ? 'text-white bg-usc-cardinal' : 'text-gray-400 bg-usc-black/70 hover:text-usc-gold'}`}
+                        >
+                            <Move className="w-3.5 h-3.5" />
+                            Move Design
+                        </button>
+                    )}
+                </div>
+            )}
             {!model && (
                 <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
                     <Shield className="w-16 h-16 text-usc-gold/20 mb-4" />
@@ -1,38 +1,252 @@
-import React, { useState, useRef } from 'react';
-import { Layers, Eraser, MousePointer2, Undo2, Redo2 } from 'lucide-react';
+import React, { useState, useRef, useMemo } from 'react';
+import { Layers, Eraser, MousePointer2, Undo2, Redo2, Lasso, Copy, Trash2, Contrast, Type, Upload, AlignLeft, AlignCenter, AlignRight, PenTool, Brush } from 'lucide-react';
+import type { FontData } from 'three/examples/jsm/loaders/FontLoader.js';
+import {
+    SHAPE_SELECTOR,
+    shapesOf,
+    clientToSvg,
+    unitsPerPixel,
+    boundsOf,
+    boxContains,
+    shapeInLasso,
+    captureTransforms,
+    restoreTransforms,
+    transformShapes,
+    toRootMatrix,
+    matrixAttribute,
+    isInk,
+    setInk,
+} from '../utils/SvgEditing';
+import type { Box, Point } from '../utils/SvgEditing';
+import {
+    DEFAULT_TEXT_SETTINGS,
+    BUNDLED_FONTS,
+    isBundledFont,
+    loadBundledFont,
+    readFontFile,
+    textPathData,
+    readTextBlock,
+    textBlockOf,
+    createTextBlock,
+    updateTextBlock,
+    flattenTextBlock,
+} from '../utils/Lettering';
+import type { FontOption, TextAlign, TextBlock, TextSettings } from '../utils/Lettering';
+import {
+    parsePathData,
+    formatPathData,
+    nodeCount,
+    moveNode,
+    moveHandle,
+    insertNode,
+    deleteNode,
+    smoothNode,
+    cornerNode,
+    simplifyPath,
+} from '../utils/PathNodes';
+import type { NodeRef, Subpath } from '../utils/PathNodes';
+import { applyBrushStroke } from '../utils/Brush';
+import type { BrushMode } from '../utils/Brush';
+import { measurePlate } from '../utils/ModelGenerator';
+import { formatLength } from '../utils/Units';
+import type { LengthUnit } from '../utils/Units';
+import type { ModelDimensions } from '../utils/ModelGenerator';
+import LengthInput from './LengthInput';
+
+// Drags shorter than this (screen px) are clicks
+const CLICK_TOLERANCE_PX = 3;
+// Selection handles, in screen px
+const HANDLE_SIZE_PX = 8;
+const ROTATE_HANDLE_OFFSET_PX = 24;
+// How far a duplicate lands from its original, in screen px
+const DUPLICATE_OFFSET_PX = 12;
+// Rotation snaps to this with Shift held
+const ROTATE_SNAP_DEG = 15;
+// How far a simplified path may stray from the original, in mm on the block
+const DEFAULT_SIMPLIFY_TOLERANCE_MM = 0.2;
+const DEFAULT_BRUSH_RADIUS_MM = 1;
+// Times text is laid out against the bounds it changes; each pass gets much closer
+const TEXT_FIT_PASSES = 3;
 
 interface PreviewSVGProps {
     svgString: string | null;
-    onSvgUpdate?: (newSvgString: string) => void;
+    dimensions: ModelDimensions;    // Sizes text in mm and decides whether it has to be flipped to print correctly
+    onSvgUpdate?: (newSvgString: string, label?: string, mergeable?: boolean) => void;
     onUndo?: () => void;
     onRedo?: () => void;
     canUndo?: boolean;
     canRedo?: boolean;
+    overlaySvg?: string | null;     // Drawn over the design with the same viewport, e.g. printability highlights
+    lengthUnit?: LengthUnit;        // Unit text sizes, brush radii and tolerances are shown in
 }
 
+type Tool = 'select' | 'lasso' | 'text' | 'nodes' | 'brush' | 'remove';
+
+// Shapes are picked by their position in document order, so a selection outlives re-rendering the same SVG
+interface Selection {
+    svg: string | null;     // The design the indices refer to; any other design has nothing selected
+    indices: number[];
+    box: Box | null;        // Bounds of the selection in the design's user space
+    unit: number;           // User units per screen pixel
+}
+
+type TransformGesture = {
+    kind: 'move' | 'scale' | 'rotate';
+    indices: number[];
+    start: Point;
+    anchor: Point;                  // Fixed point of a scale or rotation
+    transforms: (string | null)[];  // The shapes' transform attributes when the drag began
+    moved: boolean;
+};
+
+type NodePart = 'point' | 'in' | 'out';
+
+type NodeGesture = {
+    kind: 'node';
+    part: NodePart;                 // The anchor itself or one of its control points
+    ref: NodeRef;
+    start: Point;                   // In the path's own coordinates
+    original: Subpath[];            // The path when the drag began
+    moved: boolean;
+};
+
+type Gesture =
+    | { kind: 'marquee' | 'lasso'; points: Point[]; additive: boolean; target: number | null }
+    | TransformGesture
+    | NodeGesture
+    | { kind: 'brush'; stroke: Point[]; radius: number };   // Radius in user units, for drawing the stroke so far
+
+type Handle = 'nw' | 'ne' | 'sw' | 'se' | 'rotate';
+
+// The text block being edited, by the index of its outline like a selection
+interface TextTarget {
+    svg: string | null;
+    index: number;
+    block: TextBlock;
+}
+
+type LoadedFont = { name: string; data: FontData };
+
+// The path whose nodes are being edited, parsed into anchors, by its index like a selection
+interface NodeEdit {
+    svg: string | null;
+    index: number;
+    subpaths: Subpath[];
+    toRoot: DOMMatrix;              // From the path's own coordinates to the design's user space
+    active: NodeRef | null;
+}
+
+const ALIGN_ICONS: Record<TextAlign, typeof AlignLeft> = { left: AlignLeft, center: AlignCenter, right: AlignRight };
+
+const EMPTY_SELECTION: Selection = { svg: null, indices: [], box: null, unit: 1 };
+
+/**
+ * The root element's viewport attributes, so the selection overlay maps user
+ * space onto the screen exactly like the design does
+ */
+const viewportOf = (svgString: string) => {
+    const tag = svgString.match(/<svg\b[^>]*>/)?.[0] ?? '';
+    const attribute = (name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+    return {
+        viewBox: attribute('viewBox'),
+        preserveAspectRatio: attribute('preserveAspectRatio'),
+        width: attribute('width'),
+        height: attribute('height'),
+    };
+};
+
+const applyMatrix = (matrix: DOMMatrix, point: Point): Point => {
+    const transformed = new DOMPoint(point.x, point.y).matrixTransform(matrix);
+    return { x: transformed.x, y: transformed.y };
+};
+
+/**
+ * The root-space transform a drag has made so far
+ */
+const gestureMatrix = (gesture: TransformGesture, point: Point, snap: boolean) => {
+    const { start, anchor } = gesture;
+    if (gesture.kind === 'move') return new DOMMatrix().translate(point.x - start.x, point.y - start.y);
+
+    if (gesture.kind === 'scale') {
+        // Uniform scale about the opposite corner, measured along the handle's diagonal
+        const dx = start.x - anchor.x;
+        const dy = start.y - anchor.y;
+        const factor = Math.max(0.01, ((point.x - anchor.x) * dx + (point.y - anchor.y) * dy) / (dx * dx + dy * dy || 1));
+        return new DOMMatrix().translate(anchor.x, anchor.y).scale(factor).translate(-anchor.x, -anchor.y);
+    }
+
+    let degrees = (Math.atan2(point.y - anchor.y, point.x - anchor.x) - Math.atan2(start.y - anchor.y, start.x - anchor.x)) * 180 / Math.PI;
+    if (snap) degrees = Math.round(degrees / ROTATE_SNAP_DEG) * ROTATE_SNAP_DEG;
+    return new DOMMatrix().translate(anchor.x, anchor.y).rotate(degrees).translate(-anchor.x, -anchor.y);
+};
+
 const PreviewSVG: React.FC<PreviewSVGProps> = ({
     svgString,
+    dimensions,
     onSvgUpdate,
     onUndo,
     onRedo,
     canUndo,
-    canRedo
+    canRedo,
+    overlaySvg,
+    lengthUnit = 'mm'
 }) => {
-    const [isRemovalMode, setIsRemovalMode] = useState(false);
+    const [tool, setTool] = useState<Tool>('select');
     const [isDragging, setIsDragging] = useState(false);
+    const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION);
+    const [gesture, setGesture] = useState<Gesture | null>(null);
+    const [textSettings, setTextSettings] = useState<TextSettings>(DEFAULT_TEXT_SETTINGS);
+    const [textTarget, setTextTarget] = useState<TextTarget | null>(null);
+    const [uploadedFonts, setUploadedFonts] = useState<(FontOption & { data: FontData })[]>([]);
+    const [textError, setTextError] = useState<string | null>(null);
+    const [nodeEdit, setNodeEdit] = useState<NodeEdit | null>(null);
+    const [simplifyToleranceMm, setSimplifyToleranceMm] = useState(DEFAULT_SIMPLIFY_TOLERANCE_MM);
+    const [brushMode, setBrushMode] = useState<BrushMode>('paint');
+    const [brushRadiusMm, setBrushRadiusMm] = useState(DEFAULT_BRUSH_RADIUS_MM);
+    const [brushCursor, setBrushCursor] = useState<{ point: Point; radius: number } | null>(null);
     const svgContainerRef = useRef<HTMLDivElement>(null);
+    const fontInputRef = useRef<HTMLInputElement>(null);
+
+    const viewport = useMemo(() => (svgString ? viewportOf(svgString) : null), [svgString]);
+    const isCurrent = selection.svg !== null && selection.svg === svgString;
+    const selected = isCurrent ? selection.indices : [];
+    const selectionBox = isCurrent ? selection.box : null;
+    const editedText = textTarget !== null && textTarget.svg === svgString ? textTarget : null;
+    const editedNodes = tool === 'nodes' && nodeEdit !== null && nodeEdit.svg === svgString ? nodeEdit : null;
+
+    const designSvg = () => svgContainerRef.current?.querySelector('svg') ?? null;
+
+    const shapesAt = (svg: SVGSVGElement, indices: number[]) => {
+        const shapes = shapesOf(svg);
+        return indices.map(i => shapes[i]).filter(Boolean);
+    };
+
+    const select = (svg: SVGSVGElement, design: string | null, indices: number[]) => {
+        setSelection({ svg: design, indices, box: boundsOf(svg, shapesAt(svg, indices)), unit: unitsPerPixel(svg) });
+    };
+
+    // Send the edited DOM back up as the new design and keep `indices` selected in it
+    const emit = (svg: SVGSVGElement, indices: number[], label?: string, mergeable?: boolean) => {
+        const updatedSvgString = svg.outerHTML;
+        onSvgUpdate?.(updatedSvgString, label, mergeable);
+        select(svg, updatedSvgString, indices);
+        return updatedSvgString;
+    };
+
+    // Text goes with its whole block, so no settings are left behind without an outline
+    const removeShape = (element: Element) => (textBlockOf(element) ?? element).remove();
 
     const removeElement = (element: SVGElement) => {
-        const pathElement = element.closest('path, polygon, rect, circle, ellipse') as SVGElement | null;
+        const pathElement = element.closest(SHAPE_SELECTOR) as SVGElement | null;
         if (pathElement && pathElement.ownerSVGElement) {
-            pathElement.remove();
+            removeShape(pathElement);
             return true;
         }
         return false;
     };
 
     const handleSvgInteraction = (e: React.MouseEvent) => {
-        if (!isRemovalMode || !svgString) return;
+        if (tool !== 'remove' || !svgString) return;
 
         if (removeElement(e.target as SVGElement)) {
             const updatedSvgString = svgContainerRef.current?.querySelector('svg')?.outerHTML;
@@ -42,27 +256,409 @@ const PreviewSVG: React.FC<PreviewSVGProps> = ({
         }
     };
 
-    const handleMouseDown = (e: React.MouseEvent) => {
-        if (isRemovalMode) {
+    const deleteSelection = () => {
+        const svg = designSvg();
+        if (!svg || selected.length === 0) return;
+        shapesAt(svg, selected).forEach(removeShape);
+        emit(svg, []);
+    };
+
+    const duplicateSelection = () => {
+        const svg = designSvg();
+        if (!svg || selected.length === 0) return;
+        const copies = shapesAt(svg, selected).map(element => {
+            // Text is copied as a block, so the copy can be edited as text too
+            const source = textBlockOf(element) ?? element;
+            const copy = source.cloneNode(true) as SVGGraphicsElement;
+            copy.removeAttribute('id');
+            source.after(copy);
+            return copy === source || copy.matches(SHAPE_SELECTOR)
+                ? copy as SVGGeometryElement
+                : copy.querySelector<SVGGeometryElement>(SHAPE_SELECTOR)!;
+        });
+        const offset = DUPLICATE_OFFSET_PX * selection.unit;
+        transformShapes(svg, copies, new DOMMatrix().translate(offset, offset));
+        const shapes = shapesOf(svg);
+        emit(svg, copies.map(copy => shapes.indexOf(copy)));
+    };
+
+    const toggleInk = () => {
+        const svg = designSvg();
+        if (!svg || selected.length === 0) return;
+        shapesAt(svg, selected).forEach(element => setInk(element, !isInk(element)));
+        emit(svg, selected);
+    };
+
+    const loadFont = async (id: string): Promise<LoadedFont | null> => {
+        const uploaded = uploadedFonts.find(font => font.id === id);
+        if (uploaded) return uploaded;
+        if (!isBundledFont(id)) return null;
+        const data = await loadBundledFont(id);
+        return { name: BUNDLED_FONTS.find(font => font.id === id)?.name ?? id, data };
+    };
+
+    // Text is sized in mm on the block, so it takes the scale the design is printed at
+    const unitsPerMm = (svg: SVGSVGElement) => {
+        const { width, height } = svg.getBBox();
+        const scale = measurePlate(dimensions, width, height)?.scale ?? 0;
+        return scale > 0 && Number.isFinite(scale) ? 1 / scale : 1;
+    };
+
+    // Text past the design's edges widens the bounds the design is fitted by, which changes
+    // the scale it was sized at, so it is laid out again until its height holds
+    const fitText = (svg: SVGSVGElement, layOut: (unitsPerMm: number) => void) => {
+        for (let pass = 0; pass < TEXT_FIT_PASSES; pass++) layOut(unitsPerMm(svg));
+    };
+
+    const placeText = async (svg: SVGSVGElement, point: Point) => {
+        if (!textSettings.text.trim()) return;
+        const font = await loadFont(textSettings.font);
+        if (!font) {
+            setTextError('Choose a font first.');
+            return;
+        }
+        setTextError(null);
+        // An unmirrored block prints its relief reversed, so its text is drawn reversed to come out right
+        const block: TextBlock = { ...textSettings, fontName: font.name, flipped: !dimensions.mirrorForPrinting };
+        const group = createTextBlock(svg.ownerDocument, block, textPathData(font.data, textSettings, unitsPerMm(svg)), point.x, point.y);
+        svg.appendChild(group);
+        fitText(svg, perMm => group.querySelector('path')!.setAttribute('d', textPathData(font.data, textSettings, perMm)));
+        const index = shapesOf(svg).indexOf(group.querySelector('path')!);
+        const updatedSvgString = emit(svg, [index], 'Add text');
+        setTextTarget({ svg: updatedSvgString, index, block });
+    };
+
+    const editText = async (changes: Partial<TextSettings>, uploaded?: LoadedFont) => {
+        const settings = { ...textSettings, ...changes };
+        setTextSettings(settings);
+        const svg = designSvg();
+        const group = editedText && svg ? textBlockOf(shapesAt(svg, [editedText.index])[0]) : null;
+        if (!svg || !editedText || !group || !settings.text.trim()) return;
+
+        const font = uploaded ?? await loadFont(settings.font);
+        if (!font) {
+            setTextError(`Upload ${editedText.block.fontName || 'the font'} again to edit this text.`);
+            return;
+        }
+        setTextError(null);
+        fitText(svg, perMm => updateTextBlock(group, settings, font.name, textPathData(font.data, settings, perMm)));
+        const updatedSvgString = emit(svg, [editedText.index], 'Edit text', true);
+        setTextTarget({ ...editedText, svg: updatedSvgString, block: readTextBlock(group) ?? editedText.block });
+    };
+
+    const flattenText = () => {
+        const svg = designSvg();
+        const group = editedText && svg ? textBlockOf(shapesAt(svg, [editedText.index])[0]) : null;
+        if (!svg || !editedText || !group) return;
+        flattenTextBlock(group);
+        emit(svg, [editedText.index], 'Flatten text');
+        setTextTarget(null);
+    };
+
+    const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const font = await readFontFile(file);
+            setUploadedFonts(prev => [...prev.filter(existing => existing.id !== font.id), font]);
+            await editText({ font: font.id }, font);
+        } catch (err: unknown) {
+            setTextError(err instanceof Error ? err.message : 'Could not read this font.');
+        }
+    };
+
+    const startNodeEdit = (svg: SVGSVGElement, design: string | null, index: number) => {
+        const path = shapesAt(svg, [index])[0];
+        if (!(path instanceof SVGPathElement)) return;
+        select(svg, design, [index]);
+        setNodeEdit({ svg: design, index, subpaths: parsePathData(path.getAttribute('d') ?? ''), toRoot: toRootMatrix(svg, path), active: null });
+    };
+
+    const toPathSpace = (edit: NodeEdit, point: Point) => applyMatrix(edit.toRoot.inverse(), point);
+
+    // Write the edited nodes into the path and send the design up
+    const commitNodes = (svg: SVGSVGElement, subpaths: Subpath[], label: string, active: NodeRef | null) => {
+        if (!editedNodes) return;
+        const path = shapesAt(svg, [editedNodes.index])[0];
+        if (!path) return;
+        if (subpaths.length === 0) {
+            // Nothing left to draw
+            removeShape(path);
+            emit(svg, [], label);
+            setNodeEdit(null);
+            return;
+        }
+        path.setAttribute('d', formatPathData(subpaths));
+        const updatedSvgString = emit(svg, [editedNodes.index], label);
+        setNodeEdit({ ...editedNodes, svg: updatedSvgString, subpaths, active });
+    };
+
+    const editActiveNode = (edit: (subpaths: Subpath[], ref: NodeRef) => Subpath[], label: string, keepActive = true) => {
+        const svg = designSvg();
+        const active = editedNodes?.active;
+        if (!svg || !editedNodes || !active) return;
+        commitNodes(svg, edit(editedNodes.subpaths, active), label, keepActive ? active : null);
+    };
+
+    const simplifyNodes = () => {
+        const svg = designSvg();
+        if (!svg || !editedNodes) return;
+        // The tolerance is in mm on the block; the path may be scaled on its way into the design
+        const { a, b, c, d } = editedNodes.toRoot;
+        const tolerance = simplifyToleranceMm * unitsPerMm(svg) / (Math.sqrt(Math.abs(a * d - b * c)) || 1);
+        commitNodes(svg, simplifyPath(editedNodes.subpaths, tolerance), 'Simplify path', null);
+    };
+
+    const handleDoubleClick = (e: React.MouseEvent) => {
+        const svg = designSvg();
+        if (tool !== 'nodes' || !svg || !editedNodes) return;
+        const shape = (e.target as Element).closest(SHAPE_SELECTOR);
+        if (!shape || shapesOf(svg).indexOf(shape as SVGGeometryElement) !== editedNodes.index) return;
+        const inserted = insertNode(editedNodes.subpaths, toPathSpace(editedNodes, clientToSvg(svg, e.clientX, e.clientY)));
+        if (inserted) commitNodes(svg, inserted.subpaths, 'Add node', inserted.ref);
+    };
+
+    const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (tool === 'remove') {
             setIsDragging(true);
             handleSvgInteraction(e);
+            return;
+        }
+
+        const svg = designSvg();
+        if (!svg || e.button !== 0) return;
+        e.preventDefault();
+        e.currentTarget.focus();
+        const point = clientToSvg(svg, e.clientX, e.clientY);
+        const target = e.target as Element;
+
+        if (tool === 'brush') {
+            setGesture({ kind: 'brush', stroke: [point], radius: brushRadiusMm * unitsPerMm(svg) });
+            return;
+        }
+
+        const handle = target.closest('[data-handle]')?.getAttribute('data-handle') as Handle | undefined;
+        if (handle && selectionBox) {
+            const { x, y, width, height } = selectionBox;
+            const anchor = handle === 'rotate'
+                ? { x: x + width / 2, y: y + height / 2 }
+                : { x: handle.endsWith('w') ? x + width : x, y: handle.startsWith('n') ? y + height : y };
+            setGesture({
+                kind: handle === 'rotate' ? 'rotate' : 'scale',
+                indices: selected,
+                start: point,
+                anchor,
+                transforms: captureTransforms(shapesAt(svg, selected)),
+                moved: false,
+            });
+            return;
+        }
+
+        const shape = svgContainerRef.current?.contains(target) ? target.closest(SHAPE_SELECTOR) : null;
+        const index = shape ? shapesOf(svg).indexOf(shape as SVGGeometryElement) : -1;
+
+        if (tool === 'nodes') {
+            const node = target.closest('[data-node]');
+            if (node && editedNodes) {
+                const [subpath, nodeIndex] = (node.getAttribute('data-node') ?? '').split(':').map(Number);
+                const ref = { subpath, node: nodeIndex };
+                setNodeEdit({ ...editedNodes, active: ref });
+                setGesture({
+                    kind: 'node',
+                    part: node.getAttribute('data-node-part') as NodePart,
+                    ref,
+                    start: toPathSpace(editedNodes, point),
+                    original: editedNodes.subpaths,
+                    moved: false,
+                });
+            } else if (index === -1) {
+                setNodeEdit(null);
+                setSelection(EMPTY_SELECTION);
+            } else if (index !== editedNodes?.index) {
+                startNodeEdit(svg, svgString, index);
+            } else {
+                setNodeEdit({ ...editedNodes, active: null });
+            }
+            return;
         }
+
+        if (tool === 'text') {
+            // Clicking text picks it up for editing; clicking anywhere else adds new text there
+            const group = shape ? textBlockOf(shape) : null;
+            const block = group ? readTextBlock(group) : null;
+            if (block) {
+                select(svg, svgString, [index]);
+                setTextTarget({ svg: svgString, index, block });
+                setTextSettings({ ...block });
+                setTextError(null);
+            } else {
+                placeText(svg, point);
+            }
+            return;
+        }
+
+        if (tool === 'select' && index !== -1) {
+            if (e.shiftKey) {
+                select(svg, svgString, selected.includes(index) ? selected.filter(i => i !== index) : [...selected, index]);
+                return;
+            }
+            const indices = selected.includes(index) ? selected : [index];
+            select(svg, svgString, indices);
+            setGesture({ kind: 'move', indices, start: point, anchor: point, transforms: captureTransforms(shapesAt(svg, indices)), moved: false });
+            return;
+        }
+
+        setGesture({ kind: tool === 'lasso' ? 'lasso' : 'marquee', points: [point], additive: e.shiftKey, target: index === -1 ? null : index });
     };
 
     const handleMouseMove = (e: React.MouseEvent) => {
-        if (isRemovalMode && isDragging) {
-            handleSvgInteraction(e);
+        if (tool === 'remove') {
+            if (isDragging) handleSvgInteraction(e);
+            return;
+        }
+
+        const svg = designSvg();
+        if (!svg) return;
+        const point = clientToSvg(svg, e.clientX, e.clientY);
+
+        if (tool === 'brush') {
+            setBrushCursor({ point, radius: brushRadiusMm * unitsPerMm(svg) });
+            if (gesture?.kind === 'brush') setGesture({ ...gesture, stroke: [...gesture.stroke, point] });
+            return;
         }
+        if (!gesture || gesture.kind === 'brush') return;
+
+        if (gesture.kind === 'node') {
+            if (!editedNodes) return;
+            const { part, ref, start, original } = gesture;
+            const local = toPathSpace(editedNodes, point);
+            const subpaths = part === 'point'
+                ? moveNode(original, ref, { x: local.x - start.x, y: local.y - start.y })
+                : moveHandle(original, ref, part, local);
+            shapesAt(svg, [editedNodes.index])[0]?.setAttribute('d', formatPathData(subpaths));
+            setNodeEdit({ ...editedNodes, subpaths });
+            setGesture({ ...gesture, moved: true });
+            return;
+        }
+
+        if ('points' in gesture) {
+            setGesture({ ...gesture, points: gesture.kind === 'lasso' ? [...gesture.points, point] : [gesture.points[0], point] });
+            return;
+        }
+
+        // Always start again from the transforms the drag began with, so nothing accumulates
+        const elements = shapesAt(svg, gesture.indices);
+        restoreTransforms(elements, gesture.transforms);
+        transformShapes(svg, elements, gestureMatrix(gesture, point, e.shiftKey));
+        setGesture({ ...gesture, moved: true });
+        setSelection(prev => ({ ...prev, box: boundsOf(svg, elements) }));
     };
 
     const handleMouseUp = () => {
         setIsDragging(false);
+        const svg = designSvg();
+        if (!svg || !gesture) return;
+        setGesture(null);
+
+        if (gesture.kind === 'brush') {
+            const brushedSvg = svgString && applyBrushStroke(svgString, dimensions, gesture.stroke, brushRadiusMm, brushMode);
+            if (brushedSvg) onSvgUpdate?.(brushedSvg, brushMode === 'paint' ? 'Paint ink' : 'Cut ink');
+            return;
+        }
+
+        if (gesture.kind === 'node') {
+            if (gesture.moved && editedNodes) {
+                commitNodes(svg, editedNodes.subpaths, gesture.part === 'point' ? 'Move node' : 'Move node handle', gesture.ref);
+            }
+            return;
+        }
+
+        if (!('points' in gesture)) {
+            if (gesture.moved) emit(svg, gesture.indices);
+            return;
+        }
+
+        const { points, additive, target } = gesture;
+        const xs = points.map(p => p.x);
+        const ys = points.map(p => p.y);
+        const area: Box = {
+            x: Math.min(...xs),
+            y: Math.min(...ys),
+            width: Math.max(...xs) - Math.min(...xs),
+            height: Math.max(...ys) - Math.min(...ys),
+        };
+        let hits: number[];
+        if (Math.max(area.width, area.height) < CLICK_TOLERANCE_PX * unitsPerPixel(svg)) {
+            hits = target === null ? [] : [target];
+        } else {
+            // A shape is picked when it lies entirely inside the marquee or lasso
+            hits = shapesOf(svg).flatMap((shape, i) => {
+                const inside = gesture.kind === 'lasso'
+                    ? points.length >= 3 && shapeInLasso(svg, shape, points)
+                    : boxContains(area, boundsOf(svg, [shape]) ?? area);
+                return inside ? [i] : [];
+            });
+        }
+        select(svg, svgString, additive ? [...new Set([...selected, ...hits])] : hits);
     };
 
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const svg = designSvg();
+        if (!svg) return;
+        const key = e.key.toLowerCase();
+        if (editedNodes) {
+            // Keys act on the active node rather than on whole shapes
+            if (key === 'delete' || key === 'backspace') editActiveNode(deleteNode, 'Delete node', false);
+            else if (key === 'escape') setNodeEdit(null);
+            else return;
+            e.preventDefault();
+            return;
+        }
+        if (key === 'delete' || key === 'backspace') deleteSelection();
+        else if (key === 'escape') setSelection(EMPTY_SELECTION);
+        else if ((e.ctrlKey || e.metaKey) && key === 'a') select(svg, svgString, shapesOf(svg).map((_, i) => i));
+        else if ((e.ctrlKey || e.metaKey) && key === 'd') duplicateSelection();
+        else return;
+        e.preventDefault();
+    };
+
+    const handleSize = HANDLE_SIZE_PX * selection.unit;
+
+    // Control points are shown for the active node and the segments either side of it
+    const nodeHandles: { ref: NodeRef; part: NodePart; anchor: Point; handle: Point }[] = [];
+    const activeSubpath = editedNodes?.active ? editedNodes.subpaths[editedNodes.active.subpath] : undefined;
+    if (editedNodes?.active && activeSubpath) {
+        const { subpath, node } = editedNodes.active;
+        const { nodes, closed } = activeSubpath;
+        const count = nodes.length;
+        const sides: [number, 'in' | 'out'][] = [[node, 'in'], [node, 'out']];
+        if (node > 0 || closed) sides.push([(node - 1 + count) % count, 'out']);
+        if (node < count - 1 || closed) sides.push([(node + 1) % count, 'in']);
+        sides.forEach(([n, part]) => {
+            const handle = nodes[n]?.[part];
+            if (handle) {
+                nodeHandles.push({
+                    ref: { subpath, node: n },
+                    part,
+                    anchor: applyMatrix(editedNodes.toRoot, nodes[n].point),
+                    handle: applyMatrix(editedNodes.toRoot, handle),
+                });
+            }
+        });
+    }
+    const rotateHandleY = selectionBox ? selectionBox.y - ROTATE_HANDLE_OFFSET_PX * selection.unit : 0;
+    const handles: { handle: Handle; x: number; y: number }[] = selectionBox ? [
+        { handle: 'nw', x: selectionBox.x, y: selectionBox.y },
+        { handle: 'ne', x: selectionBox.x + selectionBox.width, y: selectionBox.y },
+        { handle: 'sw', x: selectionBox.x, y: selectionBox.y + selectionBox.height },
+        { handle: 'se', x: selectionBox.x + selectionBox.width, y: selectionBox.y + selectionBox.height },
+        { handle: 'rotate', x: selectionBox.x + selectionBox.width / 2, y: rotateHandleY },
+    ] : [];
+
     return (
         <div
             className="w-full h-[500px] rounded-2xl overflow-hidden shadow-2xl flex items-center justify-center p-4 relative bg-slate-900/40"
-            onMouseLeave={handleMouseUp}
             style={{
                 border: '1px solid rgba(255, 204, 0, 0.2)',
                 boxShadow: '0 0 30px rgba(0, 0, 0, 0.3)'
@@ -89,15 +685,43 @@ const PreviewSVG: React.FC<PreviewSVGProps> = ({
                         </button>
                     </div>
                     <button
-                        onClick={() => setIsRemovalMode(false)}
-                        className={`p-2 rounded-lg transition-all ${!isRemovalMode ? 'bg-usc-gold text-black shadow-lg' : 'bg-slate-800 text-usc-gold hover:bg-slate-700'}`}
-                        title="Selection Mode"
+                        onClick={() => setTool('select')}
+                        className={`p-2 rounded-lg transition-all ${tool === 'select' ? 'bg-usc-gold text-black shadow-lg' : 'bg-slate-800 text-usc-gold hover:bg-slate-700'}`}
+                        title="Selection Mode (Click, Shift+Click or drag a box; drag the selection to move it)"
                     >
                         <MousePointer2 className="w-4 h-4" />
                     </button>
                     <button
-                        onClick={() => setIsRemovalMode(true)}
-                        className={`p-2 rounded-lg transition-all ${isRemovalMode ? 'bg-usc-cardinal text-white shadow-lg' : 'bg-slate-800 text-usc-gold hover:bg-slate-700'}`}
+                        onClick={() => setTool('lasso')}
+                        className={`p-2 rounded-lg transition-all ${tool === 'lasso' ? 'bg-usc-gold text-black shadow-lg' : 'bg-slate-800 text-usc-gold hover:bg-slate-700'}`}
+                        title="Lasso Mode (Draw around items to select them)"
+                    >
+                        <Lasso className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setTool('text')}
+                        className={`p-2 rounded-lg transition-all ${tool === 'text' ? 'bg-usc-gold text-black shadow-lg' : 'bg-slate-800 text-usc-gold hover:bg-slate-700'}`}
+                        title="Text Mode (Click to add text, click text to edit it)"
+                    >
+                        <Type className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setTool('nodes')}
+                        className={`p-2 rounded-lg transition-all ${tool === 'nodes' ? 'bg-usc-gold text-black shadow-lg' : 'bg-slate-800 text-usc-gold hover:bg-slate-700'}`}
+                        title="Node Mode (Click a path to edit its nodes; double-click it to add one)"
+                    >
+                        <PenTool className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setTool('brush')}
+                        className={`p-2 rounded-lg transition-all ${tool === 'brush' ? 'bg-usc-gold text-black shadow-lg' : 'bg-slate-800 text-usc-gold hover:bg-slate-700'}`}
+                        title="Brush Mode (Paint ink in or cut it out)"
+                    >
+                        <Brush className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setTool('remove')}
+                        className={`p-2 rounded-lg transition-all ${tool === 'remove' ? 'bg-usc-cardinal text-white shadow-lg' : 'bg-slate-800 text-usc-gold hover:bg-slate-700'}`}
                         title="Removal Mode (Click items to remove)"
                     >
                         <Eraser className="w-4 h-4" />
@@ -105,21 +729,373 @@ const PreviewSVG: React.FC<PreviewSVGProps> = ({
                 </div>
             )}
 
+            {svgString && tool === 'text' && (
+                <div className="absolute top-4 left-4 z-10 w-56 flex flex-col gap-2 rounded-lg p-3 bg-slate-800 border border-usc-gold/20">
+                    <span className="text-[10px] font-bold text-usc-gold uppercase tracking-widest">{editedText ? 'Edit Text' : 'Click To Add Text'}</span>
+                    <textarea
+                        value={textSettings.text}
+                        rows={2}
+                        onChange={(e) => setTextSettings(prev => ({ ...prev, text: e.target.value }))}
+                        onBlur={() => editText({})}
+                        className="w-full rounded-md px-2 py-1 text-xs bg-slate-900 text-white border border-usc-gold/20 resize-none"
+                    />
+                    <div className="flex gap-1">
+                        <select
+                            value={textSettings.font}
+                            onChange={(e) => editText({ font: e.target.value })}
+                            className="flex-1 min-w-0 rounded-md px-2 py-1 text-xs bg-slate-900 text-white border border-usc-gold/20"
+                        >
+                            {BUNDLED_FONTS.map(font => <option key={font.id} value={font.id}>{font.name}</option>)}
+                            {uploadedFonts.map(font => <option key={font.id} value={font.id}>{font.name}</option>)}
+                            {!isBundledFont(textSettings.font) && !uploadedFonts.some(font => font.id === textSettings.font) && (
+                                <option value={textSettings.font} disabled>{editedText?.block.fontName || 'Missing font'}</option>
+                            )}
+                        </select>
+                        <button onClick={() => fontInputRef.current?.click()} className="p-1.5 rounded-md text-usc-gold hover:bg-slate-700 transition-all" title="Upload Font (TTF or OTF)">
+                            <Upload className="w-4 h-4" />
+                        </button>
+                        <input ref={fontInputRef} type="file" accept=".ttf,.otf" onChange={handleFontUpload} className="hidden" />
+                    </div>
+                    <label className="flex items-center justify-between gap-2 text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                        Letter Height ({lengthUnit})
+                        <LengthInput
+                            valueMm={textSettings.letterHeightMm}
+                            unit={lengthUnit}
+                            minMm={1}
+                            stepMm={0.5}
+                            onChange={(mm) => editText({ letterHeightMm: mm })}
+                            className="w-16 rounded-md px-2 py-1 text-xs bg-slate-900 text-white border border-usc-gold/20"
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                        <span className="flex justify-between">
+                            Spacing
+                            <span className="text-usc-gold">{Math.round(textSettings.letterSpacing * 100)}%</span>
+                        </span>
+                        <input
+                            type="range"
+                            min="-0.2"
+                            max="1"
+                            step="0.05"
+                            value={textSettings.letterSpacing}
+                            onChange={(e) => editText({ letterSpacing: parseFloat(e.target.value) })}
+                            className="w-full h-1.5 rounded-lg appearance-none cursor-pointer bg-usc-grey"
+                            style={{ accentColor: 'var(--usc-gold)' }}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                        <span className="flex justify-between">
+                            Line Height
+                            <span className="text-usc-gold">{textSettings.lineHeight.toFixed(1)}×</span>
+                        </span>
+                        <input
+                            type="range"
+                            min="1"
+                            max="3"
+                            step="0.1"
+                            value={textSettings.lineHeight}
+                            onChange={(e) => editText({ lineHeight: parseFloat(e.target.value) })}
+                            className="w-full h-1.5 rounded-lg appearance-none cursor-pointer bg-usc-grey"
+                            style={{ accentColor: 'var(--usc-gold)' }}
+                        />
+                    </label>
+                    <div className="flex items-center gap-1">
+                        {(Object.keys(ALIGN_ICONS) as TextAlign[]).map(align => {
+                            const Icon = ALIGN_ICONS[align];
+                            return (
+                                <button
+                                    key={align}
+                                    onClick={() => editText({ align })}
+                                    className={`p-1.5 rounded-md transition-all ${textSettings.align === align ? 'bg-usc-gold text-black' : 'text-usc-gold hover:bg-slate-700'}`}
+                                    title={`Align ${align[0].toUpperCase()}${align.slice(1)}`}
+                                >
+                                    <Icon className="w-4 h-4" />
+                                </button>
+                            );
+                        })}
+                        {editedText && (
+                            <button
+                                onClick={flattenText}
+                                className="ml-auto px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-widest text-usc-gold hover:bg-slate-700 transition-all"
+                                title="Turn the text into plain shapes that can no longer be edited as text"
+                            >
+                                Flatten
+                            </button>
+                        )}
+                    </div>
+                    {!dimensions.mirrorForPrinting && (
+                        <p className="text-[10px] text-gray-400">The block isn't mirrored, so text is reversed here to print the right way round.</p>
+                    )}
+                    {textError && <p className="text-[10px] text-usc-cardinal font-bold">{textError}</p>}
+                </div>
+            )}
+
+            {svgString && tool === 'brush' && (
+                <div className="absolute top-4 left-4 z-10 w-56 flex flex-col gap-2 rounded-lg p-3 bg-slate-800 border border-usc-gold/20">
+                    <div className="flex gap-1">
+                        {([['paint', 'Paint In'], ['cut', 'Cut Out']] as const).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                onClick={() => setBrushMode(mode)}
+                                className={`flex-1 py-1 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${brushMode === mode ? 'bg-usc-gold text-black' : 'text-usc-gold hover:bg-slate-700'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex flex-col gap-1 text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                        <span className="flex justify-between">
+                            Radius
+                            <span className="text-usc-gold">{formatLength(brushRadiusMm, lengthUnit)}</span>
+                        </span>
+                        <input
+                            type="range"
+                            min="0.25"
+                            max="10"
+                            step="0.25"
+                            value={brushRadiusMm}
+                            onChange={(e) => setBrushRadiusMm(parseFloat(e.target.value))}
+                            className="w-full h-1.5 rounded-lg appearance-none cursor-pointer bg-usc-grey"
+                            style={{ accentColor: 'var(--usc-gold)' }}
+                        />
+                    </label>
+                    <p className="text-[10px] text-gray-400">Strokes merge into the shapes they touch, within the design's current bounds. Text is left as it is.</p>
+                </div>
+            )}
+
+            {svgString && tool === 'nodes' && (
+                <div className="absolute top-4 left-4 z-10 w-56 flex flex-col gap-2 rounded-lg p-3 bg-slate-800 border border-usc-gold/20">
+                    <span className="text-[10px] font-bold text-usc-gold uppercase tracking-widest">
+                        {editedNodes ? `${nodeCount(editedNodes.subpaths)} Nodes` : 'Click A Path To Edit Its Nodes'}
+                    </span>
+                    {editedNodes && (
+                        <>
+                            <div className="flex items-center gap-1">
+                                {([['Smooth', smoothNode], ['Corner', cornerNode]] as const).map(([label, edit]) => (
+                                    <button
+                                        key={label}
+                                        onClick={() => editActiveNode(edit, `${label} node`)}
+                                        disabled={!editedNodes.active}
+                                        className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${editedNodes.active ? 'text-usc-gold hover:bg-slate-700' : 'text-gray-600 cursor-not-allowed'}`}
+                                        title={label === 'Smooth' ? 'Line the control points up so the outline runs smoothly through the node' : 'Drop the control points so the node is a sharp corner'}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={() => editActiveNode(deleteNode, 'Delete node', false)}
+                                    disabled={!editedNodes.active}
+                                    className={`ml-auto p-1.5 rounded-md transition-all ${editedNodes.active ? 'text-usc-gold hover:bg-slate-700' : 'text-gray-600 cursor-not-allowed'}`}
+                                    title="Delete Node (Del)"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                            <label className="flex flex-col gap-1 text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                                <span className="flex justify-between">
+                                    Tolerance
+                                    <span className="text-usc-gold">{formatLength(simplifyToleranceMm, lengthUnit)}</span>
+                                </span>
+                                <input
+                                    type="range"
+                                    min="0.05"
+                                    max="2"
+                                    step="0.05"
+                                    value={simplifyToleranceMm}
+                                    onChange={(e) => setSimplifyToleranceMm(parseFloat(e.target.value))}
+                                    className="w-full h-1.5 rounded-lg appearance-none cursor-pointer bg-usc-grey"
+                                    style={{ accentColor: 'var(--usc-gold)' }}
+                                />
+                            </label>
+                            <button
+                                onClick={simplifyNodes}
+                                className="w-full py-1.5 rounded-md text-[10px] font-bold uppercase tracking-widest bg-usc-gold text-black hover:brightness-110 transition-all"
+                                title="Remove nodes the outline doesn't need, keeping it within the tolerance of where it was"
+                            >
+                                Simplify Path
+                            </button>
+                            <p className="text-[10px] text-gray-400">Drag nodes and handles to reshape the path. Double-click it to add a node.</p>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {svgString && selected.length > 0 && tool !== 'nodes' && (
+                <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-1 rounded-lg p-1 bg-slate-800 border border-usc-gold/20">
+                    <span className="px-2 text-[10px] font-bold text-usc-gold uppercase tracking-widest">{selected.length} selected</span>
+                    <button onClick={duplicateSelection} className="p-1.5 rounded-md text-usc-gold hover:bg-slate-700 transition-all" title="Duplicate (Ctrl+D)">
+                        <Copy className="w-4 h-4" />
+                    </button>
+                    <button onClick={toggleInk} className="p-1.5 rounded-md text-usc-gold hover:bg-slate-700 transition-all" title="Toggle Ink / Background">
+                        <Contrast className="w-4 h-4" />
+                    </button>
+                    <button onClick={deleteSelection} className="p-1.5 rounded-md text-usc-gold hover:bg-slate-700 transition-all" title="Delete (Del)">
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
             {svgString ? (
                 <div
-                    className="w-full h-full flex items-center justify-center rounded-lg overflow-hidden relative shadow-inner"
+                    className="w-full h-full flex items-center justify-center rounded-lg overflow-hidden relative shadow-inner outline-none select-none"
                     style={{
                         backgroundColor: '#ffffff',
                     }}
+                    tabIndex={0}
+                    onMouseDown={handleMouseDown}
+                    onMouseMove={handleMouseMove}
+                    onMouseUp={handleMouseUp}
+                    onMouseLeave={() => {
+                        handleMouseUp();
+                        setBrushCursor(null);
+                    }}
+                    onDoubleClick={handleDoubleClick}
+                    onKeyDown={handleKeyDown}
                 >
                     <div
                         ref={svgContainerRef}
-                        className={`w-full h-full p-8 flex items-center justify-center [&>svg]:max-w-full [&>svg]:max-h-full [&>svg]:w-full [&>svg]:h-full [&>svg]:drop-shadow-sm ${isRemovalMode ? 'cursor-crosshair [&_path:hover]:fill-red-500/50 [&_path:hover]:stroke-red-500 [&_path]:transition-colors [&_path]:cursor-pointer' : ''}`}
+                        className={`w-full h-full p-8 flex items-center justify-center [&>svg]:max-w-full [&>svg]:max-h-full [&>svg]:w-full [&>svg]:h-full [&>svg]:drop-shadow-sm ${tool === 'remove' ? 'cursor-crosshair [&_path:hover]:fill-red-500/50 [&_path:hover]:stroke-red-500 [&_path]:transition-colors [&_path]:cursor-pointer' : tool === 'lasso' || tool === 'brush' ? 'cursor-crosshair' : tool === 'text' ? 'cursor-text' : '[&_path]:cursor-pointer'}`}
                         dangerouslySetInnerHTML={{ __html: svgString }}
-                        onMouseDown={handleMouseDown}
-                        onMouseMove={handleMouseMove}
-                        onMouseUp={handleMouseUp}
                     />
+                    {overlaySvg && (
+                        <div
+                            className="absolute inset-0 p-8 flex items-center justify-center pointer-events-none [&>svg]:max-w-full [&>svg]:max-h-full [&>svg]:w-full [&>svg]:h-full"
+                            dangerouslySetInnerHTML={{ __html: overlaySvg }}
+                        />
+                    )}
+                    {viewport && (selectionBox || gesture || editedNodes || (tool === 'brush' && brushCursor)) && (
+                        <div className="absolute inset-0 p-8 flex items-center justify-center pointer-events-none [&>svg]:max-w-full [&>svg]:max-h-full [&>svg]:w-full [&>svg]:h-full">
+                            <svg xmlns="http://www.w3.org/2000/svg" {...viewport} overflow="visible">
+                                {selectionBox && tool !== 'nodes' && tool !== 'brush' && (
+                                    <g fill="#ffffff" stroke="#3b82f6">
+                                        <rect {...selectionBox} fill="none" strokeWidth={1} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+                                        <line
+                                            x1={selectionBox.x + selectionBox.width / 2}
+                                            y1={selectionBox.y}
+                                            x2={selectionBox.x + selectionBox.width / 2}
+                                            y2={rotateHandleY}
+                                            strokeWidth={1}
+                                            vectorEffect="non-scaling-stroke"
+                                        />
+                                        {handles.map(({ handle, x, y }) => handle === 'rotate' ? (
+                                            <circle
+                                                key={handle}
+                                                data-handle={handle}
+                                                cx={x}
+                                                cy={y}
+                                                r={handleSize / 2}
+                                                strokeWidth={1.5}
+                                                vectorEffect="non-scaling-stroke"
+                                                className="pointer-events-auto cursor-grab"
+                                            />
+                                        ) : (
+                                            <rect
+                                                key={handle}
+                                                data-handle={handle}
+                                                x={x - handleSize / 2}
+                                                y={y - handleSize / 2}
+                                                width={handleSize}
+                                                height={handleSize}
+                                                strokeWidth={1.5}
+                                                vectorEffect="non-scaling-stroke"
+                                                className={`pointer-events-auto ${handle === 'nw' || handle === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                                            />
+                                        ))}
+                                    </g>
+                                )}
+                                {editedNodes && (
+                                    <g stroke="#3b82f6" strokeWidth={1.5} vectorEffect="non-scaling-stroke">
+                                        <path
+                                            d={formatPathData(editedNodes.subpaths)}
+                                            transform={matrixAttribute(editedNodes.toRoot)}
+                                            fill="none"
+                                            strokeWidth={1}
+                                            vectorEffect="non-scaling-stroke"
+                                        />
+                                        {nodeHandles.map(({ ref, part, anchor, handle }) => (
+                                            <g key={`${ref.subpath}:${ref.node}:${part}`}>
+                                                <line x1={anchor.x} y1={anchor.y} x2={handle.x} y2={handle.y} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                                                <circle
+                                                    data-node={`${ref.subpath}:${ref.node}`}
+                                                    data-node-part={part}
+                                                    cx={handle.x}
+                                                    cy={handle.y}
+                                                    r={handleSize / 2.5}
+                                                    fill="#ffffff"
+                                                    vectorEffect="non-scaling-stroke"
+                                                    className="pointer-events-auto cursor-move"
+                                                />
+                                            </g>
+                                        ))}
+                                        {editedNodes.subpaths.flatMap(({ nodes }, s) => nodes.map(({ point }, n) => {
+                                            const { x, y } = applyMatrix(editedNodes.toRoot, point);
+                                            const isActive = editedNodes.active?.subpath === s && editedNodes.active.node === n;
+                                            return (
+                                                <rect
+                                                    key={`${s}:${n}`}
+                                                    data-node={`${s}:${n}`}
+                                                    data-node-part="point"
+                                                    x={x - handleSize / 2}
+                                                    y={y - handleSize / 2}
+                                                    width={handleSize}
+                                                    height={handleSize}
+                                                    fill={isActive ? '#3b82f6' : '#ffffff'}
+                                                    vectorEffect="non-scaling-stroke"
+                                                    className="pointer-events-auto cursor-move"
+                                                />
+                                            );
+                                        }))}
+                                    </g>
+                                )}
+                                {gesture?.kind === 'brush' && (
+                                    <polyline
+                                        points={gesture.stroke.map(p => `${p.x},${p.y}`).join(' ')}
+                                        fill="none"
+                                        stroke={brushMode === 'paint' ? '#000000' : '#ef4444'}
+                                        strokeOpacity={0.5}
+                                        strokeWidth={gesture.radius * 2}
+                                        strokeLinecap="round"
+                                        strokeLinejoin="round"
+                                    />
+                                )}
+                                {tool === 'brush' && brushCursor && (
+                                    <circle
+                                        cx={brushCursor.point.x}
+                                        cy={brushCursor.point.y}
+                                        r={brushCursor.radius}
+                                        fill="none"
+                                        stroke="#3b82f6"
+                                        strokeWidth={1}
+                                        vectorEffect="non-scaling-stroke"
+                                    />
+                                )}
+                                {gesture?.kind === 'marquee' && gesture.points.length === 2 && (
+                                    <rect
+                                        x={Math.min(gesture.points[0].x, gesture.points[1].x)}
+                                        y={Math.min(gesture.points[0].y, gesture.points[1].y)}
+                                        width={Math.abs(gesture.points[1].x - gesture.points[0].x)}
+                                        height={Math.abs(gesture.points[1].y - gesture.points[0].y)}
+                                        fill="#3b82f6"
+                                        fillOpacity={0.1}
+                                        stroke="#3b82f6"
+                                        strokeWidth={1}
+                                        vectorEffect="non-scaling-stroke"
+                                    />
+                                )}
+                                {gesture?.kind === 'lasso' && (
+                                    <polygon
+                                        points={gesture.points.map(p => `${p.x},${p.y}`).join(' ')}
+                                        fill="#3b82f6"
+                                        fillOpacity={0.1}
+                                        stroke="#3b82f6"
+                                        strokeWidth={1}
+                                        strokeDasharray="4 3"
+                                        vectorEffect="non-scaling-stroke"
+                                    />
+                                )}
+                            </svg>
+                        </div>
+                    )}
                 </div>
             ) : (
                 <div className="pointer-events-none flex flex-col items-center">
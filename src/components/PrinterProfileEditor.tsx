@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { Copy, RotateCcw, Settings2, Trash2 } from 'lucide-react';
+import { BUILT_IN_PROFILES, DEFAULT_TEMPLATES, isBuiltInProfile, profileProblem } from '../utils/PrinterProfiles';
+import type { BedOrigin, FirmwareFlavor, PrinterProfile } from '../utils/PrinterProfiles';
+import type { LengthUnit } from '../utils/Units';
+import LengthInput from './LengthInput';
+
+interface PrinterProfileEditorProps {
+    profiles: PrinterProfile[];
+    selectedId: string;
+    lengthUnit: LengthUnit;     // Unit lengths are shown in; speeds and temperatures keep their own
+    onSelect: (id: string) => void;
+    onProfilesChange: (profiles: PrinterProfile[]) => void;
+}
+
+const inputClass = "w-full px-3 py-2 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-usc-gold focus:border-transparent transition-all";
+const inputStyle = { background: 'rgba(153, 0, 0, 0.1)', border: '1px solid rgba(255, 204, 0, 0.2)' };
+const labelClass = "block text-[10px] font-bold text-gray-400 mb-1.5 uppercase tracking-widest";
+
+type NumericField =
+    | 'nozzleTemp' | 'bedTemp' | 'bedWidth' | 'bedDepth' | 'nozzleDiameter' | 'filamentDiameter'
+    | 'printSpeed' | 'travelSpeed' | 'retractionLength' | 'retractionSpeed' | 'zHop';
+
+// Lengths are labelled with the chosen unit when shown
+const NUMERIC_FIELDS: { key: NumericField; label: string; step: number; length?: boolean }[] = [
+    { key: 'nozzleTemp', label: 'Nozzle (°C)', step: 5 },
+    { key: 'bedTemp', label: 'Bed (°C)', step: 5 },
+    { key: 'bedWidth', label: 'Bed X', step: 10, length: true },
+    { key: 'bedDepth', label: 'Bed Y', step: 10, length: true },
+    { key: 'nozzleDiameter', label: 'Nozzle', step: 0.05, length: true },
+    { key: 'filamentDiameter', label: 'Filament', step: 0.05, length: true },
+    { key: 'printSpeed', label: 'Print (mm/s)', step: 5 },
+    { key: 'travelSpeed', label: 'Travel (mm/s)', step: 10 },
+    { key: 'retractionLength', label: 'Retract', step: 0.1, length: true },
+    { key: 'retractionSpeed', label: 'Retract (mm/s)', step: 5 },
+    { key: 'zHop', label: 'Z-Hop', step: 0.1, length: true },
+];
+
+const PrinterProfileEditor: React.FC<PrinterProfileEditorProps> = ({
+    profiles,
+    selectedId,
+    lengthUnit,
+    onSelect,
+    onProfilesChange
+}) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const profile = profiles.find(p => p.id === selectedId) ?? profiles[0];
+    const problem = profileProblem(profile);
+
+    const updateProfile = (changes: Partial<PrinterProfile>) => {
+        onProfilesChange(profiles.map(p => (p.id === profile.id ? { ...p, ...changes } : p)));
+    };
+
+    const changeFlavor = (flavor: FirmwareFlavor) => {
+        // Swap the start/end scripts too, unless the user has customised them
+        const previous = DEFAULT_TEMPLATES[profile.flavor];
+        const next = DEFAULT_TEMPLATES[flavor];
+        updateProfile({
+            flavor,
+            startGCode: profile.startGCode === previous.start ? next.start : profile.startGCode,
+            endGCode: profile.endGCode === previous.end ? next.end : profile.endGCode,
+        });
+    };
+
+    const duplicateProfile = () => {
+        const copy: PrinterProfile = { ...profile, id: `custom-${Date.now()}`, name: `${profile.name} (Copy)` };
+        onProfilesChange([...profiles, copy]);
+        onSelect(copy.id);
+        setIsEditing(true);
+    };
+
+    const resetProfile = () => {
+        const preset = BUILT_IN_PROFILES.find(p => p.id === profile.id);
+        if (preset) updateProfile(preset);
+    };
+
+    const deleteProfile = () => {
+        const remaining = profiles.filter(p => p.id !== profile.id);
+        onProfilesChange(remaining);
+        onSelect(remaining[0].id);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label className={labelClass}>Printer Profile</label>
+                <div className="flex items-center gap-2">
+                    <select
+                        value={profile.id}
+                        onChange={(e) => onSelect(e.target.value)}
+                        className={inputClass}
+                        style={inputStyle}
+                    >
+                        {profiles.map(p => (
+                            <option key={p.id} value={p.id} className="bg-usc-black">{p.name}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => setIsEditing(prev => !prev)}
+                        className={`p-2 rounded-lg transition-all ${isEditing ? 'bg-usc-gold text-black' : 'text-usc-gold hover:bg-usc-gold/20'}`}
+                        title="Edit Profile"
+                    >
+                        <Settings2 className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            {isEditing && (
+                <div className="space-y-3 pt-2 border-t border-usc-gold/10">
+                    <div>
+                        <label className={labelClass}>Name</label>
+                        <input
+                            type="text"
+                            value={profile.name}
+                            onChange={(e) => updateProfile({ name: e.target.value })}
+                            className={inputClass}
+                            style={inputStyle}
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className={labelClass}>Firmware</label>
+                            <select
+                                value={profile.flavor}
+                                onChange={(e) => changeFlavor(e.target.value as FirmwareFlavor)}
+                                className={inputClass}
+                                style={inputStyle}
+                            >
+                                <option value="marlin" className="bg-usc-black">Marlin</option>
+                                <option value="klipper" className="bg-usc-black">Klipper</option>
+                                <option value="reprap" className="bg-usc-black">RepRapFirmware</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Origin</label>
+                            <select
+                                value={profile.origin}
+                                onChange={(e) => updateProfile({ origin: e.target.value as BedOrigin })}
+                                className={inputClass}
+                                style={inputStyle}
+                            >
+                                <option value="corner" className="bg-usc-black">Front Left</option>
+                                <option value="center" className="bg-usc-black">Bed Center</option>
+                            </select>
+                        </div>
+                        {NUMERIC_FIELDS.map(field => (
+                            <div key={field.key}>
+                                <label className={labelClass}>{field.length ? `${field.label} (${lengthUnit})` : field.label}</label>
+                                {field.length ? (
+                                    <LengthInput
+                                        valueMm={profile[field.key]}
+                                        unit={lengthUnit}
+                                        minMm={0}
+                                        stepMm={field.step}
+                                        onChange={(mm) => updateProfile({ [field.key]: mm })}
+                                        className={inputClass}
+                                        style={inputStyle}
+                                    />
+                                ) : (
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step={field.step}
+                                        value={profile[field.key]}
+                                        onChange={(e) => updateProfile({ [field.key]: parseFloat(e.target.value) || 0 })}
+                                        className={inputClass}
+                                        style={inputStyle}
+                                    />
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    {problem && <p className="text-xs text-red-400">❌ {problem}</p>}
+                    <label className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={profile.relativeExtrusion}
+                            onChange={(e) => updateProfile({ relativeExtrusion: e.target.checked })}
+                            style={{ accentColor: 'var(--usc-gold)' }}
+                        />
+                        Relative Extrusion (M83)
+                    </label>
+                    <div>
+                        <label className={labelClass}>Start G-Code</label>
+                        <textarea
+                            rows={5}
+                            value={profile.startGCode}
+                            onChange={(e) => updateProfile({ startGCode: e.target.value })}
+                            className={`${inputClass} font-mono text-[10px]`}
+                            style={inputStyle}
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>End G-Code</label>
+                        <textarea
+                            rows={5}
+                            value={profile.endGCode}
+                            onChange={(e) => updateProfile({ endGCode: e.target.value })}
+                            className={`${inputClass} font-mono text-[10px]`}
+                            style={inputStyle}
+                        />
+                        <p className="text-[10px] text-gray-500 mt-1">
+                            Placeholders: {'{nozzle_temp}'} {'{bed_temp}'} {'{bed_width}'} {'{bed_depth}'}
+                        </p>
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={duplicateProfile}
+                            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-[10px] font-bold transition-all usc-btn-secondary uppercase tracking-widest"
+                        >
+                            <Copy className="w-3.5 h-3.5" /> Duplicate
+                        </button>
+                        {isBuiltInProfile(profile.id) ? (
+                            <button
+                                onClick={resetProfile}
+                                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-[10px] font-bold transition-all usc-btn-secondary uppercase tracking-widest"
+                            >
+                                <RotateCcw className="w-3.5 h-3.5" /> Reset
+                            </button>
+                        ) : (
+                            <button
+                                onClick={deleteProfile}
+                                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-[10px] font-bold transition-all usc-btn-secondary uppercase tracking-widest"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" /> Delete
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PrinterProfileEditor;
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { tintSvg } from '../utils/ColorSeparation';
+import type { ColorSeparation } from '../utils/ColorSeparation';
+
+interface ReductionPreviewProps {
+    separation: ColorSeparation;
+}
+
+/**
+ * The combined print as it lands on paper, built up block by block: each layer
+ * is inked over the previous ones in printing order, lightest first
+ */
+const ReductionPreview: React.FC<ReductionPreviewProps> = ({ separation }) => {
+    const [printedCount, setPrintedCount] = useState(separation.layers.length);
+    const shown = Math.min(printedCount, separation.layers.length);
+
+    return (
+        <div className="space-y-2">
+            <div
+                className="relative rounded-lg overflow-hidden h-40"
+                style={{ backgroundColor: separation.paper }}
+            >
+                {separation.layers.slice(0, shown).map((layer, index) => (
+                    <div
+                        key={index}
+                        className="absolute inset-0 [&>svg]:w-full [&>svg]:h-full"
+                        dangerouslySetInnerHTML={{ __html: tintSvg(layer.svgString, layer.color) }}
+                    />
+                ))}
+            </div>
+            <div className="flex items-center gap-3">
+                <input
+                    type="range"
+                    min="0"
+                    max={separation.layers.length}
+                    step="1"
+                    value={shown}
+                    onChange={(e) => setPrintedCount(parseInt(e.target.value))}
+                    className="flex-1 h-1.5 rounded-lg appearance-none cursor-pointer bg-usc-grey"
+                    style={{ accentColor: 'var(--usc-gold)' }}
+                />
+                <span className="text-[10px] font-bold text-usc-gold uppercase tracking-widest w-20 text-right">
+                    {shown} / {separation.layers.length} pulled
+                </span>
+            </div>
+        </div>
+    );
+};
+
+export default ReductionPreview;
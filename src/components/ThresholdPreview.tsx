@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { binarize, computeHistogram, decodeImage, maskToImageData, medianFilter, otsuThreshold, toGrayscale } from '../utils/Segmentation';
+import type { GrayImage } from '../utils/Segmentation';
+import type { VectorizationOptions } from '../utils/ImageProcessor';
+
+// Longest side of the preview bitmap; small enough to re-threshold on every slider tick
+const PREVIEW_SIZE = 320;
+
+interface ThresholdPreviewProps {
+    image: Blob | null;
+    options: VectorizationOptions;
+}
+
+const ThresholdPreview: React.FC<ThresholdPreviewProps> = ({ image, options }) => {
+    const [decoded, setDecoded] = useState<{ source: Blob; gray: GrayImage } | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    // Decode once per image; thresholding below reuses the grayscale pixels
+    useEffect(() => {
+        if (!image) return;
+        let cancelled = false;
+        decodeImage(image, PREVIEW_SIZE)
+            .then(pixels => {
+                if (!cancelled) setDecoded({ source: image, gray: toGrayscale(pixels) });
+            })
+            .catch(error => console.warn('[ThresholdPreview] Could not decode image:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [image]);
+
+    const gray = decoded && decoded.source === image ? decoded.gray : null;
+    const { algorithm, threshold, manualThreshold } = options;
+
+    // Otsu is computed on the same (optionally median-filtered) pixels the vectorizer uses
+    const { histogram, otsu } = useMemo(() => {
+        if (!gray) return { histogram: null, otsu: 0 };
+        const histogram = computeHistogram(gray);
+        const source = algorithm === 'median-otsu' ? computeHistogram(medianFilter(gray)) : histogram;
+        return { histogram, otsu: otsuThreshold(source) };
+    }, [gray, algorithm]);
+
+    const mask = useMemo(
+        () => (gray ? binarize(gray, { algorithm, threshold, manualThreshold }) : null),
+        [gray, algorithm, threshold, manualThreshold]
+    );
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !gray || !mask) return;
+        canvas.width = gray.width;
+        canvas.height = gray.height;
+        canvas.getContext('2d')?.putImageData(maskToImageData(mask, gray.width, gray.height), 0, 0);
+    }, [gray, mask]);
+
+    if (!image) return null;
+
+    const peak = histogram ? Math.max(...histogram) : 1;
+    const activeThreshold = manualThreshold ? threshold : otsu;
+
+    return (
+        <div className="space-y-2">
+            <div className="rounded-lg overflow-hidden bg-white flex items-center justify-center h-40">
+                <canvas ref={canvasRef} className="max-w-full max-h-full" style={{ imageRendering: 'pixelated' }} />
+            </div>
+            {histogram && (
+                <div>
+                    <svg viewBox="0 0 256 64" preserveAspectRatio="none" className="w-full h-12 rounded-md bg-usc-black/60">
+                        {histogram.map((count, value) => {
+                            // Square-root scale so a huge white background doesn't flatten everything else
+                            const height = Math.sqrt(count / peak) * 64;
+                            return <rect key={value} x={value} y={64 - height} width={1} height={height} fill="#9ca3af" />;
+                        })}
+                        {algorithm !== 'adaptive' && (
+                            <>
+                                <line x1={otsu} x2={otsu} y1={0} y2={64} stroke="#990000" strokeWidth={2} />
+                                {manualThreshold && (
+                                    <line x1={threshold} x2={threshold} y1={0} y2={64} stroke="#FFCC00" strokeWidth={2} />
+                                )}
+                            </>
+                        )}
+                    </svg>
+                    <div className="flex justify-between text-[10px] text-gray-500 uppercase font-bold tracking-widest mt-1">
+                        <span><span className="text-usc-cardinal">▮</span> Otsu {otsu}</span>
+                        {algorithm === 'adaptive'
+                            ? <span>Adaptive (local)</span>
+                            : <span><span className="text-usc-gold">▮</span> Using {activeThreshold}</span>}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ThresholdPreview;
@@ -0,0 +1,55 @@
+import { binarize, decodeImage, maskToImageData, toGrayscale } from './Segmentation';
+import type { VectorizationOptions, VectorizedData, Vectorizer } from './ImageProcessor';
+
+/**
+ * Give the SVG the same root attributes the backend produces, so it scales
+ * fluidly in PreviewSVG and keeps the source image's coordinate system
+ */
+export const normalizeSvgRoot = (svgString: string, width: number, height: number) =>
+    svgString.replace(/<svg([^>]*)>/, (_match, attrs: string) => {
+        const kept = attrs.replace(/\s+(width|height|viewBox|style|preserveAspectRatio)="[^"]*"/g, '');
+        return `<svg${kept} width="100%" height="100%" viewBox="0 0 ${width} ${height}" preserveAspectRatio="xMidYMid meet" style="display:block;margin:auto;">`;
+    });
+
+/**
+ * Trace a one-byte-per-pixel mask (0 = ink) with Potrace compiled to WebAssembly
+ */
+export const traceMask = async (mask: Uint8ClampedArray, width: number, height: number, options: VectorizationOptions) => {
+    // Loaded on demand so the WebAssembly blob stays out of the main bundle
+    const { init, potrace } = await import('esm-potrace-wasm');
+    await init();
+
+    const svg = await potrace(maskToImageData(mask, width, height), {
+        turdsize: options.turdsize,
+        turnpolicy: 4,
+        alphamax: options.alphamax,
+        opticurve: options.optcurve ? 1 : 0,
+        opttolerance: options.opttolerance,
+        pathonly: false,
+        extractcolors: false,
+    });
+    return normalizeSvgRoot(svg, width, height);
+};
+
+/**
+ * Vectorize entirely in the browser: threshold with the same algorithms as the
+ * backend, then trace the bitmap with Potrace.
+ */
+export const browserVectorizer: Vectorizer = {
+    id: 'browser',
+    name: 'Browser (Potrace)',
+    vectorize: async (file: Blob, options: VectorizationOptions, signal?: AbortSignal): Promise<VectorizedData> => {
+        const image = await decodeImage(file);
+        signal?.throwIfAborted();
+        const mask = binarize(toGrayscale(image), options);
+        // Potrace itself can't be interrupted, so this is the last chance to bail out early
+        signal?.throwIfAborted();
+
+        return {
+            svgString: await traceMask(mask, image.width, image.height, options),
+            width: image.width,
+            height: image.height,
+            engine: 'browser',
+        };
+    },
+};
@@ -0,0 +1,184 @@
+import * as THREE from 'three';
+import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
+import type { SVGResultPaths } from 'three/examples/jsm/loaders/SVGLoader.js';
+import { isInkColor, pathPolygons, placeDesign } from './ModelGenerator';
+import type { DesignPlacement, ModelDimensions } from './ModelGenerator';
+import { textBlockOf } from './Lettering';
+import { intersectRegions, offsetRegion, strokeRegion, subtractRegions, unionRegions } from './Regions';
+import type { MultiPolygon, Pair } from './Regions';
+import { SHAPE_SELECTOR, attributeMatrix } from './SvgEditing';
+import type { Point } from './SvgEditing';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+// Curves of a shape that is redrawn keep this many segments each, so it hugs its old outline
+const CURVE_SEGMENTS = 12;
+// Attributes that give a shape its outline; a shape redrawn as a path drops them
+const GEOMETRY_ATTRIBUTES = ['d', 'points', 'x', 'y', 'width', 'height', 'rx', 'ry', 'cx', 'cy', 'r'];
+// A piece this close (mm) to a shape touches it, so a gap filled edge to edge joins the ink around it
+const TOUCH_MM = 0.01;
+
+export type BrushMode = 'paint' | 'cut';
+
+interface DesignShape {
+    element: Element;
+    ink: boolean;
+    editable: boolean;          // Text and shapes drawn more than once (through <use>) are left as they are
+    toRoot: DOMMatrix;          // From the element's own coordinates to the root's
+    region: MultiPolygon;       // In model space (mm)
+    box: THREE.Box2;            // Around the region, to skip shapes a change can't reach
+}
+
+const regionBox = (region: MultiPolygon) =>
+    new THREE.Box2().setFromPoints(region.flatMap(polygon => polygon[0].map(([x, y]) => new THREE.Vector2(x, y))));
+
+const readShapes = (paths: SVGResultPaths[], placement: DesignPlacement): DesignShape[] => {
+    const nodes = paths.map(path => path.userData?.node as Element);
+    return paths.map((path, i) => {
+        const element = nodes[i];
+        const toRoot = attributeMatrix(element);
+        const region = pathPolygons(path, CURVE_SEGMENTS, pair => placement.toModel(pair).toArray() as Pair);
+        const editable = element.matches(SHAPE_SELECTOR)
+            && !textBlockOf(element)
+            && !element.closest('defs, symbol')
+            && nodes.indexOf(element) === nodes.lastIndexOf(element)
+            && path.userData?.style.fill !== 'none'
+            // A shape flattened by its transform has no outline to redraw
+            && toRoot.a * toRoot.d !== toRoot.b * toRoot.c;
+        return { element, ink: isInkColor(path.color), editable, toRoot, region, box: regionBox(region) };
+    });
+};
+
+/**
+ * SVG path data for a model-space region in one element's own coordinates
+ */
+const toPathData = (region: MultiPolygon, placement: DesignPlacement, toRoot: DOMMatrix) => {
+    const toLocal = toRoot.inverse();
+    return region
+        .flatMap(polygon => polygon.map(ring => `M${ring.slice(0, -1).map(pair => {
+            const [x, y] = placement.toSvg(pair);
+            const point = new DOMPoint(x, y).matrixTransform(toLocal);
+            return `${+point.x.toFixed(3)} ${+point.y.toFixed(3)}`;
+        }).join('L')}Z`))
+        .join('');
+};
+
+/**
+ * Give a shape a new outline, or remove it once nothing is left of it. Other
+ * kinds of shape become a path with the same fill, style and transform.
+ */
+const redrawShape = (shape: DesignShape, region: MultiPolygon, placement: DesignPlacement) => {
+    shape.region = region;
+    shape.box = regionBox(region);
+    if (region.length === 0) {
+        shape.element.remove();
+        shape.editable = false;
+        return;
+    }
+    if (shape.element.localName !== 'path') {
+        const path = shape.element.ownerDocument.createElementNS(SVG_NS, 'path');
+        Array.from(shape.element.attributes)
+            .filter(({ name }) => !GEOMETRY_ATTRIBUTES.includes(name))
+            .forEach(({ name, value }) => path.setAttribute(name, value));
+        shape.element.replaceWith(path);
+        shape.element = path;
+    }
+    const path = shape.element as SVGPathElement;
+    path.setAttribute('d', toPathData(region, placement, shape.toRoot));
+    // Islands and holes come out as separate rings, so even-odd fills them the way they were merged
+    path.style.removeProperty('fill-rule');
+    path.setAttribute('fill-rule', 'evenodd');
+};
+
+/**
+ * Merge one connected piece into the design. Paint joins the topmost ink shape
+ * it touches and clears the background painted over that shape; cut takes it
+ * out of every ink shape it touches. Returns whether anything changed.
+ */
+const mergePiece = (shapes: DesignShape[], piece: MultiPolygon, mode: BrushMode, placement: DesignPlacement) => {
+    const overlaps = (shape: DesignShape, region: MultiPolygon, box: THREE.Box2) =>
+        shape.editable && shape.box.intersectsBox(box) && intersectRegions(shape.region, region).length > 0;
+    const pieceBox = regionBox(piece);
+
+    if (mode === 'cut') {
+        const cut = shapes.filter(shape => shape.ink && overlaps(shape, piece, pieceBox));
+        cut.forEach(shape => redrawShape(shape, subtractRegions(shape.region, piece), placement));
+        return cut.length > 0;
+    }
+
+    const reach = offsetRegion(piece, TOUCH_MM);
+    const reachBox = regionBox(reach);
+    let target = -1;
+    for (let i = shapes.length - 1; i >= 0 && target < 0; i--) {
+        if (shapes[i].ink && overlaps(shapes[i], reach, reachBox)) target = i;
+    }
+    if (target < 0) {
+        // Nothing to join: the piece becomes a shape of its own, over everything else
+        const root = shapes[0].element.ownerDocument.documentElement;
+        const element = root.ownerDocument.createElementNS(SVG_NS, 'path');
+        element.setAttribute('fill', '#000000');
+        root.appendChild(element);
+        const shape: DesignShape = { element, ink: true, editable: true, toRoot: attributeMatrix(element), region: [], box: pieceBox };
+        redrawShape(shape, piece, placement);
+        shapes.push(shape);
+        return true;
+    }
+
+    const uncovered = shapes.slice(target + 1).filter(shape => !shape.ink && overlaps(shape, piece, pieceBox));
+    uncovered.forEach(shape => redrawShape(shape, subtractRegions(shape.region, piece), placement));
+    const joined = shapes[target];
+    const grows = subtractRegions(piece, joined.region).length > 0;
+    if (grows) redrawShape(joined, unionRegions(joined.region, piece), placement);
+    return grows || uncovered.length > 0;
+};
+
+const parseDesign = (svgString: string) => {
+    const paths = new SVGLoader().parse(svgString).paths.filter(path => path.userData?.node);
+    return paths.length > 0 ? paths : null;
+};
+
+/**
+ * The design with `region` merged into its own shapes, so it doesn't gain a
+ * shape for every edit. Text is never redrawn. `region` is in model space,
+ * placed by `placement`, and is kept inside the design's bounds, since
+ * anything past them would rescale the whole design. Returns null if nothing
+ * changed.
+ */
+const mergeRegion = (paths: SVGResultPaths[], region: MultiPolygon, mode: BrushMode, placement: DesignPlacement) => {
+    const clipped = region.length > 0 ? intersectRegions(region, [placement.bounds]) : region;
+    if (clipped.length === 0) return null;
+    const shapes = readShapes(paths, placement);
+    const changed = clipped
+        .map(piece => mergePiece(shapes, [piece], mode, placement))
+        .reduce((any, merged) => any || merged, false);
+    return changed ? new XMLSerializer().serializeToString(shapes[0].element.ownerDocument.documentElement) : null;
+};
+
+/**
+ * The design with a model-space region, placed by `placement`, painted in as
+ * ink or cut out of it. Returns the design unchanged if there is nothing to do.
+ */
+export const applyDesignRegion = (svgString: string, region: MultiPolygon, placement: DesignPlacement, mode: BrushMode) => {
+    const paths = parseDesign(svgString);
+    return (paths && mergeRegion(paths, region, mode, placement)) ?? svgString;
+};
+
+/**
+ * Paint a brush stroke into the design, or cut it out. The stroke is merged
+ * into the shapes it touches rather than drawn over them, so the design keeps
+ * the same shapes to select, move and edit. `points` are in the design's user
+ * space and the radius is in mm on the block.
+ */
+export const applyBrushStroke = (
+    svgString: string,
+    dimensions: ModelDimensions,
+    points: Point[],
+    radiusMm: number,
+    mode: BrushMode
+) => {
+    const paths = parseDesign(svgString);
+    const placement = paths && placeDesign(paths, dimensions);
+    if (!paths || !placement) return null;
+
+    const stroke = strokeRegion(points.map(({ x, y }) => placement.toModel([x, y]).toArray() as Pair), radiusMm);
+    return mergeRegion(paths, stroke, mode, placement);
+};
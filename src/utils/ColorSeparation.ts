@@ -0,0 +1,172 @@
+import { decodeImage } from './Segmentation';
+import { traceMask } from './BrowserVectorizer';
+import type { VectorizationOptions } from './ImageProcessor';
+
+// k-means runs on a subsample; every pixel is then assigned to the nearest center
+const MAX_SAMPLES = 20000;
+const KMEANS_ITERATIONS = 12;
+
+export type SeparationMode = 'tones' | 'colors';
+
+export interface ReductionSettings {
+    colorCount: number;     // Number of clusters, including the paper color
+    mode: SeparationMode;   // Posterize by luminance only, or by full RGB
+    overprint: boolean;     // Each block also covers the darker colors printed after it, so no paper gaps show between them
+}
+
+export const DEFAULT_REDUCTION_SETTINGS: ReductionSettings = {
+    colorCount: 3,
+    mode: 'tones',
+    overprint: true,
+};
+
+export interface ColorLayer {
+    color: string;          // Hex ink color for this block
+    svgString: string;      // Traced block, black on white, in the source image's coordinate system
+    coverage: number;       // Fraction of the image this block inks
+}
+
+export interface ColorSeparation {
+    paper: string;          // Lightest cluster, left uninked
+    layers: ColorLayer[];   // Blocks in printing order, lightest ink first
+    width: number;
+    height: number;
+}
+
+type Rgb = [number, number, number];
+
+const luminance = ([r, g, b]: Rgb) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const toHex = (color: Rgb) =>
+    '#' + color.map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+
+/**
+ * Read pixels as points in the clustering space, treating transparency as white paper.
+ * In 'tones' mode every channel carries the luminance, so clusters are greys.
+ */
+const pixelPoints = (image: ImageData, mode: SeparationMode) => {
+    const count = image.width * image.height;
+    const points = new Float32Array(count * 3);
+    const rgba = image.data;
+    for (let p = 0, i = 0; p < count; p++, i += 4) {
+        const color: Rgb = rgba[i + 3] < 128 ? [255, 255, 255] : [rgba[i], rgba[i + 1], rgba[i + 2]];
+        if (mode === 'tones') {
+            const value = luminance(color);
+            points[p * 3] = points[p * 3 + 1] = points[p * 3 + 2] = value;
+        } else {
+            points.set(color, p * 3);
+        }
+    }
+    return points;
+};
+
+const nearestCenter = (points: Float32Array, index: number, centers: Rgb[]) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let c = 0; c < centers.length; c++) {
+        const dr = points[index * 3] - centers[c][0];
+        const dg = points[index * 3 + 1] - centers[c][1];
+        const db = points[index * 3 + 2] - centers[c][2];
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            best = c;
+        }
+    }
+    return best;
+};
+
+/**
+ * Deterministic k-means: centers start at evenly spaced luminance quantiles of
+ * the sample, so the same image always separates the same way
+ */
+const kMeans = (points: Float32Array, pixelCount: number, k: number): Rgb[] => {
+    const step = Math.max(1, Math.floor(pixelCount / MAX_SAMPLES));
+    const samples: number[] = [];
+    for (let p = 0; p < pixelCount; p += step) samples.push(p);
+
+    const byLuminance = [...samples].sort((a, b) =>
+        luminance([points[a * 3], points[a * 3 + 1], points[a * 3 + 2]]) -
+        luminance([points[b * 3], points[b * 3 + 1], points[b * 3 + 2]])
+    );
+    let centers: Rgb[] = Array.from({ length: k }, (_, c) => {
+        const p = byLuminance[Math.min(byLuminance.length - 1, Math.floor(((c + 0.5) / k) * byLuminance.length))];
+        return [points[p * 3], points[p * 3 + 1], points[p * 3 + 2]];
+    });
+
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+        const sums = centers.map(() => [0, 0, 0, 0]);
+        for (const p of samples) {
+            const sum = sums[nearestCenter(points, p, centers)];
+            sum[0] += points[p * 3];
+            sum[1] += points[p * 3 + 1];
+            sum[2] += points[p * 3 + 2];
+            sum[3]++;
+        }
+        // Empty clusters keep their previous center
+        centers = centers.map((center, c) => {
+            const [r, g, b, n] = sums[c];
+            return n > 0 ? [r / n, g / n, b / n] : center;
+        });
+    }
+
+    return centers;
+};
+
+/**
+ * Posterize an image into `colorCount` clusters and trace one block per ink.
+ * Every block keeps the full image as its coordinate frame, so blocks generated
+ * from the layers register against each other when printed in order.
+ */
+export const separateColors = async (
+    file: Blob,
+    settings: ReductionSettings,
+    options: VectorizationOptions,
+    signal?: AbortSignal
+): Promise<ColorSeparation> => {
+    const image = await decodeImage(file);
+    signal?.throwIfAborted();
+    const { width, height } = image;
+    const pixelCount = width * height;
+
+    const points = pixelPoints(image, settings.mode);
+    const centers = kMeans(points, pixelCount, Math.max(2, settings.colorCount));
+
+    // Rank clusters from lightest to darkest; rank 0 is the paper
+    const order = centers.map((_, c) => c).sort((a, b) => luminance(centers[b]) - luminance(centers[a]));
+    const rankOf = new Uint8Array(centers.length);
+    order.forEach((c, rank) => { rankOf[c] = rank; });
+
+    const ranks = new Uint8Array(pixelCount);
+    for (let p = 0; p < pixelCount; p++) ranks[p] = rankOf[nearestCenter(points, p, centers)];
+
+    const layers: ColorLayer[] = [];
+    for (let rank = 1; rank < order.length; rank++) {
+        const mask = new Uint8ClampedArray(pixelCount);
+        let inked = 0;
+        for (let p = 0; p < pixelCount; p++) {
+            const covered = settings.overprint ? ranks[p] >= rank : ranks[p] === rank;
+            mask[p] = covered ? 0 : 255;
+            if (covered) inked++;
+        }
+        if (inked === 0) continue;
+
+        signal?.throwIfAborted();
+        layers.push({
+            color: toHex(centers[order[rank]]),
+            svgString: await traceMask(mask, width, height, options),
+            coverage: inked / pixelCount,
+        });
+    }
+
+    return { paper: toHex(centers[order[0]]), layers, width, height };
+};
+
+/**
+ * Recolor a traced block for previews. Paths lose their own fill so they
+ * inherit the ink color from the root element.
+ */
+export const tintSvg = (svgString: string, color: string) =>
+    svgString
+        .replace(/\s(fill|fill-opacity)="[^"]*"/g, '')
+        .replace(/<svg/, `<svg fill="${color}"`);
@@ -0,0 +1,70 @@
+import type { VectorizationOptions } from './ImageProcessor';
+import type { ModelDimensions } from './ModelGenerator';
+
+// Oldest steps are dropped past this many
+export const MAX_HISTORY_STEPS = 50;
+// Edits with the same label this close together (ms) are one step, so typing a number or nudging a value isn't one undo per keystroke
+const MERGE_WINDOW_MS = 1000;
+
+/**
+ * The part of the app's state that undo and redo move through
+ */
+export interface DesignState {
+    svgString: string | null;
+    dimensions: ModelDimensions;
+    vectorOptions: VectorizationOptions;
+}
+
+export type DesignPatch = Partial<DesignState>;
+
+/**
+ * One undoable step: the values it changed, before and after. Undoing puts
+ * `before` back and redoing puts `after` back, so a step only touches the
+ * state it is about.
+ */
+export interface EditCommand {
+    label: string;
+    before: DesignPatch;
+    after: DesignPatch;
+    at: number;             // Date.now() of the latest edit in the step
+}
+
+export interface EditHistory {
+    commands: EditCommand[];
+    position: number;       // Steps commands[0..position) are applied; 0 is the state before any of them
+}
+
+export const EMPTY_HISTORY: EditHistory = { commands: [], position: 0 };
+
+export const canUndo = (history: EditHistory) => history.position > 0;
+export const canRedo = (history: EditHistory) => history.position < history.commands.length;
+
+/**
+ * Add a step after the current position, discarding any steps that were undone.
+ * A mergeable step with the same label as the one before it, made within
+ * MERGE_WINDOW_MS, extends that step instead.
+ */
+export const recordCommand = (history: EditHistory, command: EditCommand, mergeable = false): EditHistory => {
+    const applied = history.commands.slice(0, history.position);
+    const last = applied[applied.length - 1];
+    if (mergeable && last && last.label === command.label && command.at - last.at < MERGE_WINDOW_MS) {
+        applied[applied.length - 1] = { ...last, after: command.after, at: command.at };
+        return { commands: applied, position: applied.length };
+    }
+
+    const commands = [...applied, command].slice(-MAX_HISTORY_STEPS);
+    return { commands, position: commands.length };
+};
+
+/**
+ * Move to `target` (0 to commands.length) and return the state to put back: the
+ * `before` of every step being undone, or the `after` of every step being redone.
+ * When several steps touch the same value, the one furthest along wins.
+ */
+export const travelTo = (history: EditHistory, target: number) => {
+    const position = Math.min(Math.max(target, 0), history.commands.length);
+    let patch: DesignPatch = {};
+    for (let i = history.position - 1; i >= position; i--) patch = { ...patch, ...history.commands[i].before };
+    for (let i = history.position; i < position; i++) patch = { ...patch, ...history.commands[i].after };
+    return { history: { ...history, position }, patch };
+};
@@ -1,72 +1,298 @@
 import * as THREE from 'three';
+import { sliceGroup } from './Slicer';
+import type { Loop, SliceLayer } from './Slicer';
+import { planInfill } from './Infill';
+import type { InfillLine, InfillOptions } from './Infill';
+import { BUILT_IN_PROFILES, profileProblem, renderTemplate } from './PrinterProfiles';
+import type { FirmwareFlavor, PrinterProfile } from './PrinterProfiles';
+import { offsetRegion } from './Regions';
+import type { Pair, Ring } from './Regions';
 
-export const generateGCode = (group: THREE.Group, layerHeight: number = 0.2) => {
-    let gcode = [
+// Travel moves shorter than this (in mm) don't retract
+const MIN_RETRACT_TRAVEL = 1.5;
+// Lines much narrower than the nozzle can't be laid down
+const MIN_LINE_WIDTH_RATIO = 0.8;
+
+export interface GCodeSettings extends InfillOptions {
+    layerHeight: number;        // Layer height in mm
+    firstLayerHeight: number;   // Thicker first layer for bed adhesion, in mm
+    firstLayerSpeed: number;    // Print speed for the first layer, in mm/s
+}
+
+export const DEFAULT_GCODE_SETTINGS: GCodeSettings = {
+    layerHeight: 0.2,
+    firstLayerHeight: 0.3,
+    firstLayerSpeed: 20,
+    lineWidth: 0.45,
+    infillDensity: 20,
+    infillPattern: 'rectilinear',
+    solidBottomLayers: 4,
+    solidTopLayers: 5,
+};
+
+const FLAVOR_NAMES: Record<FirmwareFlavor, string> = {
+    marlin: 'Marlin',
+    klipper: 'Klipper',
+    reprap: 'RepRapFirmware',
+};
+
+/**
+ * Progress line emitted at every layer change, in the flavor's own dialect
+ */
+const layerProgress = (flavor: FirmwareFlavor, layer: number, total: number) => {
+    switch (flavor) {
+        case 'klipper':
+            return `SET_PRINT_STATS_INFO CURRENT_LAYER=${layer + 1}`;
+        case 'reprap':
+        case 'marlin':
+            return `M117 Layer ${layer + 1}/${total}`;
+    }
+};
+
+/**
+ * How wide a line actually comes out: at least as wide as the nozzle, whatever
+ * width was asked for
+ */
+export const beadWidth = (lineWidth: number, nozzleDiameter: number) => Math.max(lineWidth, nozzleDiameter);
+
+/**
+ * Millimetres of filament needed per millimetre of extruded line. The line is
+ * modelled as a rectangle with semicircular ends (width w, height h), which is
+ * how a squashed bead of plastic actually looks in cross-section.
+ */
+export const extrusionPerMm = (lineWidth: number, layerHeight: number, nozzleDiameter: number, filamentDiameter: number) => {
+    const w = beadWidth(lineWidth, nozzleDiameter);
+    const h = Math.min(layerHeight, w);
+    const lineArea = (w - h) * h + Math.PI * (h / 2) ** 2;
+    const filamentArea = Math.PI * (filamentDiameter / 2) ** 2;
+    return lineArea / filamentArea;
+};
+
+/**
+ * Why these settings can't be printed on this printer, or null if they can
+ */
+export const gcodeSetupProblem = (settings: GCodeSettings, profile: PrinterProfile) => {
+    const problem = profileProblem(profile);
+    if (problem) return problem;
+    if (!(settings.layerHeight > 0) || !(settings.firstLayerHeight > 0)) return 'Layer heights must be greater than 0.';
+    if (!(settings.firstLayerSpeed > 0)) return 'First layer speed must be greater than 0.';
+    if (!(settings.lineWidth >= profile.nozzleDiameter * MIN_LINE_WIDTH_RATIO)) return 'Line width is too narrow for the nozzle.';
+    return null;
+};
+
+/**
+ * Why this model can't be sliced as it stands, or null if it can. Layers are
+ * stacked from the model's lowest point, so a grip standing off the back of
+ * the plate would be printed first with the plate floating above it.
+ */
+export const gcodeModelProblem = (group: THREE.Group) => {
+    group.updateMatrixWorld(true);
+    const toModelSpace = group.matrixWorld.clone().invert();
+    let minZ = Infinity;
+    group.traverse(child => {
+        if (!(child instanceof THREE.Mesh)) return;
+        const geometry = child.geometry as THREE.BufferGeometry;
+        if (!geometry.boundingBox) geometry.computeBoundingBox();
+        const box = geometry.boundingBox!.clone().applyMatrix4(toModelSpace.clone().multiply(child.matrixWorld));
+        minZ = Math.min(minZ, box.min.z);
+    });
+    return minZ < -1e-6 ? 'The grip on the back would print under a floating plate. Turn the grip off to slice here.' : null;
+};
+
+const toLoop = (ring: Ring): Loop => ring.slice(0, -1).map(([x, y]) => new THREE.Vector2(x, y));
+
+/**
+ * Where the perimeters of a layer run: every contour moved inwards by half the
+ * bead width, so the outer edge of the bead lands on the sliced outline and
+ * islands and holes come out at their true size. Anything narrower than a bead
+ * has no room for a perimeter and is left out.
+ */
+const perimeterLayer = (layer: SliceLayer, width: number): SliceLayer => {
+    const region = layer.polygons.map(({ outer, holes }) =>
+        [outer, ...holes].map(loop => [...loop, loop[0]].map(({ x, y }) => [x, y] as Pair)));
+    const inset = region.length > 0 ? offsetRegion(region, -width / 2) : [];
+    return {
+        ...layer,
+        polygons: inset.map(([outer, ...holes]) => ({ outer: toLoop(outer), holes: holes.map(toLoop) })),
+    };
+};
+
+/**
+ * Order loops greedily so each one starts close to where the previous one ended
+ */
+const orderLoops = (loops: Loop[], from: THREE.Vector2) => {
+    const remaining = [...loops];
+    const ordered: Loop[] = [];
+    let position = from;
+
+    while (remaining.length > 0) {
+        let bestLoop = 0;
+        let bestVertex = 0;
+        let bestDistance = Infinity;
+        remaining.forEach((loop, li) => {
+            loop.forEach((point, vi) => {
+                const distance = point.distanceToSquared(position);
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    bestLoop = li;
+                    bestVertex = vi;
+                }
+            });
+        });
+
+        const [loop] = remaining.splice(bestLoop, 1);
+        // Rotate the loop so printing starts at the closest vertex
+        const rotated = [...loop.slice(bestVertex), ...loop.slice(0, bestVertex)];
+        ordered.push(rotated);
+        position = rotated[0];
+    }
+
+    return ordered;
+};
+
+export const generateGCode = (
+    group: THREE.Group,
+    settings: GCodeSettings = DEFAULT_GCODE_SETTINGS,
+    profile: PrinterProfile = BUILT_IN_PROFILES[0]
+) => {
+    const problem = gcodeSetupProblem(settings, profile) ?? gcodeModelProblem(group);
+    if (problem) throw new Error(problem);
+
+    // Cut the model into closed contours at every layer and trace a perimeter just inside
+    // each one, then fill the inside of the perimeters with solid or sparse lines
+    const layers = sliceGroup(group, settings.layerHeight, settings.firstLayerHeight);
+    const perimeters = layers.map(layer => perimeterLayer(layer, beadWidth(settings.lineWidth, profile.nozzleDiameter)));
+    const infill = planInfill(perimeters, settings);
+
+    // The model is centered on its own origin; move it to the middle of the bed
+    const offset = profile.origin === 'corner'
+        ? new THREE.Vector2(profile.bedWidth / 2, profile.bedDepth / 2)
+        : new THREE.Vector2(0, 0);
+    const fmt = (point: THREE.Vector2) =>
+        `X${(point.x + offset.x).toFixed(3)} Y${(point.y + offset.y).toFixed(3)}`;
+
+    const travelFeed = Math.round(profile.travelSpeed * 60);
+    const retractFeed = Math.round(profile.retractionSpeed * 60);
+
+    const gcode = [
         "; G-Code generated by Linolium3D",
+        `; Printer: ${profile.name}`,
+        `;FLAVOR:${FLAVOR_NAMES[profile.flavor]}`,
+        `;LAYER_COUNT:${layers.length}`,
+        `; Layer height: ${settings.layerHeight}mm, first layer: ${settings.firstLayerHeight}mm`,
+        `; Line width: ${settings.lineWidth}mm, nozzle: ${profile.nozzleDiameter}mm, filament: ${profile.filamentDiameter}mm`,
         "G21 ; set units to millimeters",
         "G90 ; use absolute coordinates",
-        "M82 ; use absolute distances for extrusion",
-        "G28 ; home all axes",
-        "G1 Z5 F5000 ; lift nozzle",
+        profile.relativeExtrusion
+            ? "M83 ; use relative distances for extrusion"
+            : "M82 ; use absolute distances for extrusion",
+        renderTemplate(profile.startGCode, profile),
+        "G92 E0 ; reset extruder",
         ""
     ];
 
-    // Simple 2.5D slicing logic
-    // We'll iterate through layers and generate perimeters for each mesh in the group
-    const box = new THREE.Box3().setFromObject(group);
-    const minZ = box.min.z;
-    const maxZ = box.max.z;
-
-    let currentE = 0;
-    const feedRate = 1200; // mm/min
+    if (profile.flavor === 'klipper') {
+        gcode.push(`SET_PRINT_STATS_INFO TOTAL_LAYER_COUNT=${layers.length}`);
+    }
 
-    for (let z = minZ + layerHeight; z <= maxZ; z += layerHeight) {
-        gcode.push(`; LAYER: ${((z - minZ) / layerHeight).toFixed(0)}`);
-        gcode.push(`G1 Z${z.toFixed(3)} F5000`);
+    const footprint = new THREE.Box2().setFromPoints(
+        layers.flatMap(layer => layer.polygons.flatMap(polygon => polygon.outer))
+    );
+    const size = footprint.getSize(new THREE.Vector2());
+    if (size.x > profile.bedWidth || size.y > profile.bedDepth) {
+        gcode.push(`; WARNING: model (${size.x.toFixed(1)} x ${size.y.toFixed(1)} mm) is larger than the bed`);
+    }
 
-        group.traverse((child) => {
-            if (child instanceof THREE.Mesh) {
-                const geometry = child.geometry;
-                if (geometry instanceof THREE.ExtrudeGeometry || geometry instanceof THREE.BoxGeometry) {
-                    // For simplicity in this MVP, we'll use the bounding box of each mesh to create a perimeter
-                    // A real slicer would do ray-casting or cross-sectioning
-                    const meshBox = new THREE.Box3().setFromObject(child);
+    // Extruder state: E is only ever written through `extrude` so relative and
+    // absolute modes stay in step
+    let absoluteE = 0;
+    let totalFilament = 0;
+    let retracted = false;
+    let layerZ = 0;
+    let position = new THREE.Vector2(0, 0);
 
-                    // Only print if this mesh exists at this Z height
-                    if (z >= meshBox.min.z && z <= meshBox.max.z) {
-                        const x1 = meshBox.min.x;
-                        const y1 = meshBox.min.y;
-                        const x2 = meshBox.max.x;
-                        const y2 = meshBox.max.y;
+    const extrude = (amount: number) => {
+        absoluteE += amount;
+        return profile.relativeExtrusion ? amount.toFixed(5) : absoluteE.toFixed(5);
+    };
 
-                        // Move to start
-                        gcode.push(`G0 X${x1.toFixed(3)} Y${y1.toFixed(3)}`);
+    const retract = () => {
+        if (retracted || profile.retractionLength <= 0) return;
+        gcode.push(`G1 E${extrude(-profile.retractionLength)} F${retractFeed} ; retract`);
+        retracted = true;
+    };
 
-                        // Draw rectangle
-                        const extrusionMultiplier = 0.05; // Simplified extrusion math
+    const unretract = () => {
+        if (!retracted) return;
+        gcode.push(`G1 E${extrude(profile.retractionLength)} F${retractFeed} ; unretract`);
+        retracted = false;
+    };
 
-                        currentE += (x2 - x1) * extrusionMultiplier;
-                        gcode.push(`G1 X${x2.toFixed(3)} Y${y1.toFixed(3)} E${currentE.toFixed(5)} F${feedRate}`);
+    const travelTo = (point: THREE.Vector2) => {
+        const longTravel = point.distanceTo(position) >= MIN_RETRACT_TRAVEL;
+        if (longTravel) {
+            retract();
+            if (profile.zHop > 0) gcode.push(`G1 Z${(layerZ + profile.zHop).toFixed(3)} F${travelFeed} ; z-hop`);
+        }
+        gcode.push(`G0 ${fmt(point)} F${travelFeed}`);
+        if (longTravel && profile.zHop > 0) gcode.push(`G1 Z${layerZ.toFixed(3)} F${travelFeed}`);
+        position = point;
+    };
 
-                        currentE += (y2 - y1) * extrusionMultiplier;
-                        gcode.push(`G1 X${x2.toFixed(3)} Y${y2.toFixed(3)} E${currentE.toFixed(5)}`);
+    layers.forEach((layer, layerIndex) => {
+        const isFirstLayer = layerIndex === 0;
+        const printFeed = Math.round((isFirstLayer ? settings.firstLayerSpeed : profile.printSpeed) * 60);
+        const ePerMm = extrusionPerMm(settings.lineWidth, layer.height, profile.nozzleDiameter, profile.filamentDiameter);
+        let feedSet = false;
 
-                        currentE += (x2 - x1) * extrusionMultiplier;
-                        gcode.push(`G1 X${x1.toFixed(3)} Y${y2.toFixed(3)} E${currentE.toFixed(5)}`);
+        const extrudeTo = (point: THREE.Vector2) => {
+            unretract();
+            const amount = position.distanceTo(point) * ePerMm;
+            totalFilament += amount;
+            gcode.push(`G1 ${fmt(point)} E${extrude(amount)}${feedSet ? '' : ` F${printFeed}`}`);
+            feedSet = true;
+            position = point;
+        };
 
-                        currentE += (y2 - y1) * extrusionMultiplier;
-                        gcode.push(`G1 X${x1.toFixed(3)} Y${y1.toFixed(3)} E${currentE.toFixed(5)}`);
-                    }
+        const printLines = (lines: InfillLine[]) => {
+            lines.forEach(([start, end]) => {
+                if (start.distanceTo(position) > 1e-6) {
+                    travelTo(start);
+                    feedSet = false;
                 }
-            }
+                extrudeTo(end);
+            });
+        };
+
+        layerZ = layer.z;
+        gcode.push(`; LAYER: ${layer.index}`);
+        gcode.push(layerProgress(profile.flavor, layer.index, layers.length));
+        gcode.push(`G1 Z${layer.z.toFixed(3)} F${travelFeed}`);
+
+        // Outer boundary first, then its holes, so each island is finished before moving on
+        const loops = perimeters[layerIndex].polygons.flatMap(polygon => [polygon.outer, ...polygon.holes]);
+
+        gcode.push("; TYPE: perimeter");
+        orderLoops(loops, position).forEach((loop) => {
+            travelTo(loop[0]);
+            feedSet = false;
+            // Walk the contour and close it back at the starting vertex
+            [...loop.slice(1), loop[0]].forEach(point => extrudeTo(point));
         });
+
+        gcode.push("; TYPE: solid infill");
+        printLines(infill[layerIndex].solid);
+        gcode.push("; TYPE: sparse infill");
+        printLines(infill[layerIndex].sparse);
         gcode.push("");
-    }
+    });
+
+    retract();
+    gcode.push(renderTemplate(profile.endGCode, profile));
 
-    gcode.push("M104 S0 ; turn off temperature");
-    gcode.push("M140 S0 ; turn off heatbed");
-    gcode.push("G28 X0 ; home X axis");
-    gcode.push("M84 ; disable motors");
+    const filamentVolume = totalFilament * Math.PI * (profile.filamentDiameter / 2) ** 2;
+    gcode.push(`; filament used [mm] = ${totalFilament.toFixed(1)}`);
+    gcode.push(`; filament used [cm3] = ${(filamentVolume / 1000).toFixed(2)}`);
 
     return gcode.join("\n");
 };
@@ -0,0 +1,150 @@
+import { medianFilter } from './Segmentation';
+
+export interface CropRect {
+    x: number;      // All fractions (0-1) of the rotated image
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ImageAdjustments {
+    quarterTurns: number;   // Clockwise 90° turns, 0-3
+    rotation: number;       // Fine straightening in degrees clockwise, on top of the quarter turns
+    crop: CropRect;
+    brightness: number;     // -100 to 100
+    contrast: number;       // -100 to 100
+    levelsBlack: number;    // Input level mapped to black, 0-255
+    levelsWhite: number;    // Input level mapped to white, 0-255
+    gamma: number;          // Midtone gamma, 1 = unchanged
+    invert: boolean;
+    denoise: boolean;       // 3x3 median filter on every channel
+}
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const DEFAULT_IMAGE_ADJUSTMENTS: ImageAdjustments = {
+    quarterTurns: 0,
+    rotation: 0,
+    crop: FULL_CROP,
+    brightness: 0,
+    contrast: 0,
+    levelsBlack: 0,
+    levelsWhite: 255,
+    gamma: 1,
+    invert: false,
+    denoise: false,
+};
+
+export const totalRotation = (adjustments: ImageAdjustments) => adjustments.quarterTurns * 90 + adjustments.rotation;
+
+export const isDefaultAdjustments = (adjustments: ImageAdjustments) =>
+    JSON.stringify(adjustments) === JSON.stringify(DEFAULT_IMAGE_ADJUSTMENTS);
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported.');
+    return { canvas, ctx };
+};
+
+/**
+ * Rotate an image about its center onto a canvas that fits the rotated bounds,
+ * filling the exposed corners with white paper. `maxDimension` downscales for previews.
+ */
+export const rotateImage = (source: ImageBitmap | HTMLCanvasElement, rotation: number, maxDimension: number = Infinity) => {
+    const radians = (rotation * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    const rotatedWidth = source.width * cos + source.height * sin;
+    const rotatedHeight = source.width * sin + source.height * cos;
+    const scale = Math.min(1, maxDimension / Math.max(rotatedWidth, rotatedHeight));
+
+    const { canvas, ctx } = createCanvas(rotatedWidth * scale, rotatedHeight * scale);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(radians);
+    ctx.scale(scale, scale);
+    ctx.drawImage(source, -source.width / 2, -source.height / 2);
+    return canvas;
+};
+
+/**
+ * Lookup table combining levels, gamma, brightness, contrast and invert
+ */
+const buildToneCurve = (adjustments: ImageAdjustments) => {
+    const { levelsBlack, levelsWhite, gamma, brightness, contrast, invert } = adjustments;
+    const range = Math.max(1, levelsWhite - levelsBlack);
+    const contrastFactor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+    const lut = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) {
+        let value = Math.min(1, Math.max(0, (v - levelsBlack) / range));
+        value = Math.pow(value, 1 / Math.max(0.01, gamma)) * 255;
+        value += brightness * 2.55;
+        value = contrastFactor * (value - 128) + 128;
+        value = Math.min(255, Math.max(0, value));
+        lut[v] = invert ? 255 - value : value;
+    }
+    return lut;
+};
+
+/**
+ * Apply tone adjustments and optional denoising to a canvas in place
+ */
+export const adjustPixels = (canvas: HTMLCanvasElement, adjustments: ImageAdjustments) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported.');
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { data, width, height } = image;
+
+    if (adjustments.denoise) {
+        const channel = new Uint8ClampedArray(width * height);
+        for (let c = 0; c < 3; c++) {
+            for (let p = 0; p < channel.length; p++) channel[p] = data[p * 4 + c];
+            const filtered = medianFilter({ data: channel, width, height }).data;
+            for (let p = 0; p < channel.length; p++) data[p * 4 + c] = filtered[p];
+        }
+    }
+
+    const lut = buildToneCurve(adjustments);
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = lut[data[i]];
+        data[i + 1] = lut[data[i + 1]];
+        data[i + 2] = lut[data[i + 2]];
+    }
+
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+};
+
+/**
+ * Cut the crop rectangle out of an (already rotated) canvas
+ */
+export const cropCanvas = (source: HTMLCanvasElement, crop: CropRect) => {
+    const sx = crop.x * source.width;
+    const sy = crop.y * source.height;
+    const sw = crop.width * source.width;
+    const sh = crop.height * source.height;
+    const { canvas, ctx } = createCanvas(sw, sh);
+    ctx.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
+
+/**
+ * Run the whole pre-processing pipeline (rotate, crop, tone, denoise) at full
+ * resolution and return the result as a PNG ready for vectorizing
+ */
+export const applyAdjustments = async (file: Blob, adjustments: ImageAdjustments): Promise<Blob> => {
+    if (isDefaultAdjustments(adjustments)) return file;
+
+    const bitmap = await createImageBitmap(file);
+    const rotated = rotateImage(bitmap, totalRotation(adjustments));
+    bitmap.close();
+    const adjusted = adjustPixels(cropCanvas(rotated, adjustments.crop), adjustments);
+
+    return new Promise((resolve, reject) => {
+        adjusted.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode adjusted image'))), 'image/png');
+    });
+};
@@ -1,7 +1,13 @@
+import { browserVectorizer } from './BrowserVectorizer';
+
+export type VectorizerId = 'browser' | 'backend';
+export type VectorizerChoice = 'auto' | VectorizerId;
+
 export interface VectorizedData {
   svgString: string;
   width: number;
   height: number;
+  engine: VectorizerId;   // Which vectorizer actually produced the SVG
 }
 
 export type SegmentationAlgorithm = 'otsu' | 'median-otsu' | 'adaptive';
@@ -16,25 +22,63 @@ export interface VectorizationOptions {
   algorithm: SegmentationAlgorithm;
 }
 
+export const DEFAULT_VECTORIZATION_OPTIONS: VectorizationOptions = {
+  turdsize: 2,
+  alphamax: 1.0,
+  optcurve: true,
+  opttolerance: 0.2,
+  threshold: 128,
+  manualThreshold: false,
+  algorithm: 'otsu'
+};
+
+export interface Vectorizer {
+  id: VectorizerId;
+  name: string;
+  vectorize: (file: Blob, options: VectorizationOptions, signal?: AbortSignal) => Promise<VectorizedData>;
+}
+
+const BACKEND_URL: string = import.meta.env.VITE_VECTORIZE_URL ?? 'http://localhost:8000/vectorize';
+
+/**
+ * Raised when the backend can't be reached at all, as opposed to the backend
+ * answering with an error. Only this case falls back to the browser vectorizer.
+ */
+export class BackendUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super(`Vectorization backend unreachable at ${BACKEND_URL}`, { cause });
+    this.name = 'BackendUnavailableError';
+  }
+}
+
 /**
  * Vectorize an image file using the local Python backend
  */
-export const vectorizeImage = async (file: File, options?: VectorizationOptions): Promise<VectorizedData> => {
-  const formData = new FormData();
-  formData.append('file', file);
-  formData.append('turdsize', (options?.turdsize ?? 2).toString());
-  formData.append('alphamax', (options?.alphamax ?? 1.0).toString());
-  formData.append('optcurve', (options?.optcurve ?? true).toString());
-  formData.append('opttolerance', (options?.opttolerance ?? 0.2).toString());
-  formData.append('threshold', (options?.threshold ?? 128).toString());
-  formData.append('manualThreshold', (options?.manualThreshold ?? false).toString());
-  formData.append('algorithm', options?.algorithm ?? 'otsu');
+export const backendVectorizer: Vectorizer = {
+  id: 'backend',
+  name: 'Local Backend (vtracer)',
+  vectorize: async (file: Blob, options: VectorizationOptions, signal?: AbortSignal): Promise<VectorizedData> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('turdsize', options.turdsize.toString());
+    formData.append('alphamax', options.alphamax.toString());
+    formData.append('optcurve', options.optcurve.toString());
+    formData.append('opttolerance', options.opttolerance.toString());
+    formData.append('threshold', options.threshold.toString());
+    formData.append('manualThreshold', options.manualThreshold.toString());
+    formData.append('algorithm', options.algorithm);
 
-  try {
-    const response = await fetch('http://localhost:8000/vectorize', {
-      method: 'POST',
-      body: formData,
-    });
+    let response: Response;
+    try {
+      response = await fetch(BACKEND_URL, {
+        method: 'POST',
+        body: formData,
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new BackendUnavailableError(error);
+    }
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -51,9 +95,137 @@ export const vectorizeImage = async (file: File, options?: VectorizationOptions)
       svgString: data.svgString,
       width: data.width,
       height: data.height,
+      engine: 'backend',
     };
+  },
+};
+
+export const VECTORIZERS: Record<VectorizerId, Vectorizer> = {
+  browser: browserVectorizer,
+  backend: backendVectorizer,
+};
+
+// Remembered after the first automatic attempt so later calls don't wait on a dead backend
+let backendReachable: boolean | null = null;
+
+// Most recently used results, keyed by image hash, vectorizer and options
+const CACHE_LIMIT = 24;
+const resultCache = new Map<string, VectorizedData>();
+const hashCache = new WeakMap<Blob, Promise<string>>();
+
+/**
+ * Two FNV-1a passes with different offsets, for when crypto.subtle is missing
+ * (pages not served from a secure context, like the dev server over a LAN IP)
+ */
+const fallbackDigest = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let a = 0x811c9dc5;
+  let b = 0x050c5d1f;
+  for (let i = 0; i < bytes.length; i++) {
+    a = Math.imul(a ^ bytes[i], 0x01000193);
+    b = Math.imul(b ^ bytes[bytes.length - 1 - i], 0x01000193);
+  }
+  return [a, b, bytes.length].map(value => (value >>> 0).toString(16).padStart(8, '0')).join('');
+};
+
+/**
+ * SHA-256 of the image bytes where the browser offers it, computed once per Blob
+ */
+export const hashImage = (file: Blob) => {
+  let hash = hashCache.get(file);
+  if (!hash) {
+    const subtle = globalThis.crypto?.subtle;
+    hash = file.arrayBuffer().then(async buffer => {
+      if (!subtle) return fallbackDigest(buffer);
+      const digest = await subtle.digest('SHA-256', buffer);
+      return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    });
+    hashCache.set(file, hash);
+  }
+  return hash;
+};
+
+/**
+ * Cache key for a vectorization. The manual threshold is left out whenever
+ * the algorithm ignores it, so toggling it doesn't miss the cache.
+ */
+const cacheKey = (hash: string, options: VectorizationOptions, choice: VectorizerChoice) => {
+  const usesThreshold = options.manualThreshold && options.algorithm !== 'adaptive';
+  return [
+    hash,
+    choice,
+    options.algorithm,
+    usesThreshold ? options.threshold : 'auto',
+    options.turdsize,
+    options.alphamax,
+    options.optcurve,
+    options.opttolerance,
+  ].join('|');
+};
+
+const runVectorizer = async (
+  file: Blob,
+  options: VectorizationOptions,
+  choice: VectorizerChoice,
+  signal?: AbortSignal
+): Promise<VectorizedData> => {
+  if (choice !== 'auto') {
+    return VECTORIZERS[choice].vectorize(file, options, signal);
+  }
+
+  if (backendReachable !== false) {
+    try {
+      const result = await backendVectorizer.vectorize(file, options, signal);
+      backendReachable = true;
+      return result;
+    } catch (error) {
+      if (!(error instanceof BackendUnavailableError)) throw error;
+      backendReachable = false;
+      console.warn('[ImageProcessor] Backend unavailable, falling back to browser vectorizer');
+    }
+  }
+
+  return browserVectorizer.vectorize(file, options, signal);
+};
+
+/**
+ * Vectorize an image file with the chosen vectorizer. In 'auto' mode the
+ * backend is preferred when it is running, and the in-browser Potrace
+ * vectorizer is used otherwise (e.g. on the deployed site).
+ *
+ * Results are cached, and an aborted request rejects with an AbortError.
+ * A result that arrives after its request was aborted is still cached.
+ */
+export const vectorizeImage = async (
+  file: Blob,
+  options: VectorizationOptions = DEFAULT_VECTORIZATION_OPTIONS,
+  choice: VectorizerChoice = 'auto',
+  signal?: AbortSignal
+): Promise<VectorizedData> => {
+  try {
+    const key = cacheKey(await hashImage(file), options, choice);
+    signal?.throwIfAborted();
+
+    const cached = resultCache.get(key);
+    if (cached) {
+      // Re-insert to mark as most recently used
+      resultCache.delete(key);
+      resultCache.set(key, cached);
+      return cached;
+    }
+
+    const result = await runVectorizer(file, options, choice, signal);
+    resultCache.set(key, result);
+    if (resultCache.size > CACHE_LIMIT) {
+      resultCache.delete(resultCache.keys().next().value!);
+    }
+
+    signal?.throwIfAborted();
+    return result;
   } catch (error) {
-    console.error('[ImageProcessor] Backend vectorization error:', error);
+    if (!signal?.aborted) {
+      console.error('[ImageProcessor] Vectorization error:', error);
+    }
     throw error;
   }
 };
@@ -0,0 +1,141 @@
+import * as THREE from 'three';
+import { collectTriangles } from './Slicer';
+
+// Longest side of the rendered sheet, in pixels
+const RESOLUTION = 1200;
+// Paper showing around the block's footprint
+const PAPER_MARGIN_MM = 10;
+// Size of the patches where ink lies thinner, like an unevenly rolled brayer
+const BLOTCH_MM = 1.5;
+// Faces within this distance (mm) of the top count as the printing face
+const FACE_TOLERANCE = 1e-3;
+
+export interface ImpressionStyle {
+    inkColor: string;       // Hex
+    paperColor: string;     // Hex
+    variability: number;    // 0 = perfectly even ink, 1 = very patchy
+}
+
+export const DEFAULT_IMPRESSION_STYLE: ImpressionStyle = {
+    inkColor: '#1a1a1a',
+    paperColor: '#f4efe4',
+    variability: 0.35,
+};
+
+export interface PrintingFace {
+    triangles: Float32Array;    // x, y per vertex, in mm as the impression lands on paper
+    bounds: THREE.Box2;         // The block's footprint on the paper
+}
+
+/**
+ * The faces of the block that touch the paper: every upward face at the very
+ * top of the relief. The block is pressed face down, so the impression is these
+ * faces reflected across Y.
+ */
+export const printingFace = (model: THREE.Group): PrintingFace | null => {
+    const soup = collectTriangles(model);
+    if (soup.count === 0) return null;
+
+    const { positions } = soup;
+    const triangles: number[] = [];
+    const bounds = new THREE.Box2();
+    for (let t = 0; t < soup.count; t++) {
+        const base = t * 9;
+        for (let k = 0; k < 3; k++) bounds.expandByPoint(new THREE.Vector2(-positions[base + k * 3], positions[base + k * 3 + 1]));
+        const onTop = [2, 5, 8].every(k => soup.maxZ - positions[base + k] < FACE_TOLERANCE);
+        if (!onTop) continue;
+        for (let k = 0; k < 3; k++) triangles.push(-positions[base + k * 3], positions[base + k * 3 + 1]);
+    }
+
+    return triangles.length > 0 ? { triangles: new Float32Array(triangles), bounds } : null;
+};
+
+/**
+ * Integer hash to [0, 1), so the paper and ink texture are the same on every render
+ */
+const hash = (x: number, y: number, seed: number) => {
+    let h = Math.imul(x, 374761393) ^ Math.imul(y, 668265263) ^ Math.imul(seed, 982451653);
+    h = Math.imul(h ^ (h >>> 13), 1274126177);
+    return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+/**
+ * Smooth value noise in [0, 1) on a grid of unit cells
+ */
+const valueNoise = (x: number, y: number, seed: number) => {
+    const ix = Math.floor(x);
+    const iy = Math.floor(y);
+    const fx = x - ix;
+    const fy = y - iy;
+    const sx = fx * fx * (3 - 2 * fx);
+    const sy = fy * fy * (3 - 2 * fy);
+    const top = hash(ix, iy, seed) * (1 - sx) + hash(ix + 1, iy, seed) * sx;
+    const bottom = hash(ix, iy + 1, seed) * (1 - sx) + hash(ix + 1, iy + 1, seed) * sx;
+    return top * (1 - sy) + bottom * sy;
+};
+
+/**
+ * Paint the impression onto `canvas`, resizing it to the sheet: the printing
+ * face inked onto textured paper, with ink coverage thinning out in patches and
+ * grain as `style.variability` goes up
+ */
+export const renderImpression = (canvas: HTMLCanvasElement, face: PrintingFace, style: ImpressionStyle) => {
+    const sheet = face.bounds.clone().expandByScalar(PAPER_MARGIN_MM);
+    const size = sheet.getSize(new THREE.Vector2());
+    const pixelsPerMm = RESOLUTION / Math.max(size.x, size.y);
+    const width = Math.round(size.x * pixelsPerMm);
+    const height = Math.round(size.y * pixelsPerMm);
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    // Rasterize the face as a single path: triangles filled together leave no seams between them
+    context.clearRect(0, 0, width, height);
+    context.beginPath();
+    const { triangles } = face;
+    for (let i = 0; i < triangles.length; i += 6) {
+        for (let k = 0; k < 3; k++) {
+            const x = (triangles[i + k * 2] - sheet.min.x) * pixelsPerMm;
+            const y = (sheet.max.y - triangles[i + k * 2 + 1]) * pixelsPerMm;
+            if (k === 0) context.moveTo(x, y);
+            else context.lineTo(x, y);
+        }
+        context.closePath();
+    }
+    context.fillStyle = '#000000';
+    context.fill('nonzero');
+    const coverage = context.getImageData(0, 0, width, height);
+
+    const ink = new THREE.Color(style.inkColor);
+    const paper = new THREE.Color(style.paperColor);
+    const inkRgb = [ink.r, ink.g, ink.b].map(c => c * 255);
+    const paperRgb = [paper.r, paper.g, paper.b].map(c => c * 255);
+    const blotchScale = 1 / (BLOTCH_MM * pixelsPerMm);
+    const pixels = coverage.data;
+
+    for (let y = 0, i = 0; y < height; y++) {
+        for (let x = 0; x < width; x++, i += 4) {
+            const grain = hash(x, y, 1);
+            // Paper fibres: a slight, fine-grained shift in brightness
+            const fibre = 1 + (grain - 0.5) * 0.06;
+
+            let amount = pixels[i + 3] / 255;
+            if (amount > 0 && style.variability > 0) {
+                const blotch = valueNoise(x * blotchScale, y * blotchScale, 2);
+                const speckle = hash(x, y, 3);
+                // Ink skips the paper's high spots first, then thins out across whole patches
+                const thin = Math.max(0, blotch * 0.7 + speckle * 0.3 - (1 - style.variability));
+                amount *= Math.max(0, 1 - thin * 2.5);
+            }
+
+            for (let c = 0; c < 3; c++) {
+                const base = Math.min(255, paperRgb[c] * fibre);
+                // Ink darkens the paper under it rather than covering it, like a multiply blend
+                pixels[i + c] = base * (1 - amount) + (inkRgb[c] * base / 255) * amount;
+            }
+            pixels[i + 3] = 255;
+        }
+    }
+    context.putImageData(coverage, 0, 0);
+};
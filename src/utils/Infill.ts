@@ -0,0 +1,201 @@
+import * as THREE from 'three';
+import type { SliceLayer } from './Slicer';
+
+// How far infill lines reach back into the perimeter, as a fraction of the line width
+const INFILL_OVERLAP = 0.15;
+// Solid fill alternates between these two directions from layer to layer
+const FILL_ANGLES = [Math.PI / 4, -Math.PI / 4];
+
+export type InfillPattern = 'rectilinear' | 'grid';
+
+export interface InfillOptions {
+    lineWidth: number;          // Extrusion width in mm
+    infillDensity: number;      // Sparse infill density, 0-100 %
+    infillPattern: InfillPattern;
+    solidBottomLayers: number;  // Layers printed solid above any empty space below
+    solidTopLayers: number;     // Layers printed solid below any exposed surface (e.g. the relief top)
+}
+
+export type InfillLine = [THREE.Vector2, THREE.Vector2];
+
+export interface LayerInfill {
+    solid: InfillLine[];
+    sparse: InfillLine[];
+}
+
+// Flat list of [start, end, start, end, ...] intervals along a scanline, sorted
+type Spans = number[];
+
+const intersectSpans = (a: Spans, b: Spans): Spans => {
+    const result: Spans = [];
+    let i = 0, j = 0;
+    while (i < a.length && j < b.length) {
+        const start = Math.max(a[i], b[j]);
+        const end = Math.min(a[i + 1], b[j + 1]);
+        if (start < end) result.push(start, end);
+        if (a[i + 1] < b[j + 1]) i += 2;
+        else j += 2;
+    }
+    return result;
+};
+
+const subtractSpans = (a: Spans, b: Spans): Spans => {
+    const result: Spans = [];
+    let j = 0;
+    for (let i = 0; i < a.length; i += 2) {
+        let start = a[i];
+        const end = a[i + 1];
+        while (j < b.length && b[j + 1] <= start) j += 2;
+        let k = j;
+        while (k < b.length && b[k] < end) {
+            if (b[k] > start) result.push(start, b[k]);
+            start = Math.max(start, b[k + 1]);
+            k += 2;
+        }
+        if (start < end) result.push(start, end);
+    }
+    return result;
+};
+
+const shrinkSpans = (spans: Spans, inset: number, minLength: number): Spans => {
+    const result: Spans = [];
+    for (let i = 0; i < spans.length; i += 2) {
+        const start = spans[i] + inset;
+        const end = spans[i + 1] - inset;
+        if (end - start >= minLength) result.push(start, end);
+    }
+    return result;
+};
+
+/**
+ * Scan a layer along horizontal lines Y = row * spacing after rotating it by -angle.
+ * Returns the inside intervals of every row that crosses the layer, using the
+ * even-odd rule so holes are cut out automatically.
+ */
+const scanLayer = (layer: SliceLayer, angle: number, spacing: number) => {
+    const cos = Math.cos(-angle);
+    const sin = Math.sin(-angle);
+    const crossings = new Map<number, number[]>();
+
+    layer.polygons.forEach(polygon => {
+        [polygon.outer, ...polygon.holes].forEach(loop => {
+            for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+                const ax = loop[j].x * cos - loop[j].y * sin;
+                const ay = loop[j].x * sin + loop[j].y * cos;
+                const bx = loop[i].x * cos - loop[i].y * sin;
+                const by = loop[i].x * sin + loop[i].y * cos;
+                if (ay === by) continue;
+
+                // Half-open range so a vertex shared by two edges is counted once
+                const firstRow = Math.ceil(Math.min(ay, by) / spacing);
+                const lastRow = Math.ceil(Math.max(ay, by) / spacing) - 1;
+                for (let row = firstRow; row <= lastRow; row++) {
+                    const y = row * spacing;
+                    const x = ax + ((y - ay) / (by - ay)) * (bx - ax);
+                    const list = crossings.get(row);
+                    if (list) list.push(x);
+                    else crossings.set(row, [x]);
+                }
+            }
+        });
+    });
+
+    const rows = new Map<number, Spans>();
+    crossings.forEach((xs, row) => {
+        xs.sort((a, b) => a - b);
+        rows.set(row, xs.length % 2 === 0 ? xs : xs.slice(0, -1));
+    });
+    return rows;
+};
+
+/**
+ * Plan solid and sparse infill for every layer. `layers` give the centerlines
+ * of the perimeters, and the infill starts one line width inside them, less
+ * the overlap.
+ *
+ * A region is printed solid when it lies within `solidBottomLayers` of empty
+ * space below or within `solidTopLayers` of an exposed surface above. Everything
+ * else gets sparse infill, so the base plate is solid on the bed and under any
+ * uncovered area, and the relief always ends in a sealed, flat printing face.
+ */
+export const planInfill = (layers: SliceLayer[], options: InfillOptions): LayerInfill[] => {
+    const { lineWidth, infillDensity, infillPattern, solidBottomLayers, solidTopLayers } = options;
+    const inset = lineWidth * (1 - INFILL_OVERLAP);
+
+    // Sparse lines sit on the same grid as solid lines, every `sparseStep` rows
+    const density = Math.min(100, Math.max(0, infillDensity)) / 100;
+    const patternFactor = infillPattern === 'grid' ? 2 : 1;
+    const sparseStep = density > 0 ? Math.max(1, Math.round(patternFactor / density)) : 0;
+
+    const cache = new Map<string, Map<number, Spans>>();
+    const rowsFor = (index: number, angle: number) => {
+        const key = `${index}:${angle}`;
+        let rows = cache.get(key);
+        if (!rows) {
+            rows = index >= 0 && index < layers.length
+                ? scanLayer(layers[index], angle, lineWidth)
+                : new Map<number, Spans>();
+            cache.set(key, rows);
+        }
+        return rows;
+    };
+
+    const toWorld = (x: number, y: number, angle: number) => new THREE.Vector2(
+        x * Math.cos(angle) - y * Math.sin(angle),
+        x * Math.sin(angle) + y * Math.cos(angle)
+    );
+
+    const fillAtAngle = (layerIndex: number, angle: number, result: LayerInfill, includeSolid: boolean) => {
+        const rows = rowsFor(layerIndex, angle);
+        const sortedRows = [...rows.keys()].sort((a, b) => a - b);
+        let flip = false;
+
+        sortedRows.forEach(row => {
+            const own = shrinkSpans(rows.get(row)!, inset, lineWidth / 2);
+            if (own.length === 0) return;
+
+            // Spans that stay covered by material for the required layers above and below
+            let interior = own;
+            for (let k = 1; k <= solidTopLayers && interior.length > 0; k++) {
+                interior = intersectSpans(interior, rowsFor(layerIndex + k, angle).get(row) ?? []);
+            }
+            for (let k = 1; k <= solidBottomLayers && interior.length > 0; k++) {
+                interior = intersectSpans(interior, rowsFor(layerIndex - k, angle).get(row) ?? []);
+            }
+
+            const solid = includeSolid ? subtractSpans(own, interior) : [];
+            const sparse = sparseStep > 0 && row % sparseStep === 0 ? interior : [];
+
+            // Alternate direction row by row so consecutive lines join up with short moves
+            const emit = (spans: Spans, target: InfillLine[]) => {
+                const lines: InfillLine[] = [];
+                for (let i = 0; i < spans.length; i += 2) {
+                    if (spans[i + 1] - spans[i] < lineWidth / 2) continue;
+                    const y = row * lineWidth;
+                    const a = toWorld(spans[i], y, angle);
+                    const b = toWorld(spans[i + 1], y, angle);
+                    lines.push(flip ? [b, a] : [a, b]);
+                }
+                target.push(...(flip ? lines.reverse() : lines));
+            };
+
+            emit(solid, result.solid);
+            emit(sparse, result.sparse);
+            flip = !flip;
+        });
+    };
+
+    return layers.map((layer) => {
+        const result: LayerInfill = { solid: [], sparse: [] };
+        const angle = FILL_ANGLES[layer.index % FILL_ANGLES.length];
+
+        fillAtAngle(layer.index, angle, result, true);
+        if (infillPattern === 'grid') {
+            // Grid crosses every layer's sparse lines with a second set at right angles
+            const crossAngle = FILL_ANGLES[(layer.index + 1) % FILL_ANGLES.length];
+            fillAtAngle(layer.index, crossAngle, result, false);
+        }
+
+        return result;
+    });
+};
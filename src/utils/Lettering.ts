@@ -0,0 +1,237 @@
+import { TTFLoader } from 'three/examples/jsm/loaders/TTFLoader.js';
+import type { FontData } from 'three/examples/jsm/loaders/FontLoader.js';
+import helvetiker from 'three/examples/fonts/helvetiker_regular.typeface.json';
+import { matrixAttribute } from './SvgEditing';
+
+// Marks a group holding editable text; its value is the block's TextBlock as JSON
+export const TEXT_BLOCK_ATTRIBUTE = 'data-text-block';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextSettings {
+    text: string;
+    font: string;               // A bundled font's id, or an uploaded one's from readFontFile
+    letterHeightMm: number;     // Height of the capitals on the block
+    letterSpacing: number;      // Extra space between letters, in letter heights
+    lineHeight: number;         // Distance between baselines, in letter heights
+    align: TextAlign;
+}
+
+/**
+ * What a text block remembers so it can be laid out again: its settings, and
+ * whether its outlines are flipped to print the right way round from a block
+ * that isn't mirrored for printing
+ */
+export interface TextBlock extends TextSettings {
+    fontName: string;           // Shown when an uploaded font has to be uploaded again
+    flipped: boolean;
+}
+
+export interface FontOption {
+    id: string;
+    name: string;
+}
+
+export const DEFAULT_TEXT_SETTINGS: TextSettings = {
+    text: 'Text',
+    font: 'helvetiker',
+    letterHeightMm: 10,
+    letterSpacing: 0,
+    lineHeight: 1.6,
+    align: 'center',
+};
+
+// Helvetiker is already bundled for the block labels; the rest are fetched on first use
+const BUNDLED_FONT_FILES: Record<string, { name: string; load: () => Promise<{ default: unknown }> }> = {
+    helvetiker: { name: 'Helvetiker', load: async () => ({ default: helvetiker }) },
+    helvetiker_bold: { name: 'Helvetiker Bold', load: () => import('three/examples/fonts/helvetiker_bold.typeface.json') },
+    optimer: { name: 'Optimer', load: () => import('three/examples/fonts/optimer_regular.typeface.json') },
+    optimer_bold: { name: 'Optimer Bold', load: () => import('three/examples/fonts/optimer_bold.typeface.json') },
+    droid_sans: { name: 'Droid Sans', load: () => import('three/examples/fonts/droid/droid_sans_regular.typeface.json') },
+    droid_serif: { name: 'Droid Serif', load: () => import('three/examples/fonts/droid/droid_serif_regular.typeface.json') },
+    droid_sans_mono: { name: 'Droid Sans Mono', load: () => import('three/examples/fonts/droid/droid_sans_mono_regular.typeface.json') },
+};
+
+export const BUNDLED_FONTS: FontOption[] = Object.entries(BUNDLED_FONT_FILES).map(([id, { name }]) => ({ id, name }));
+
+// Each bundled font is loaded once
+const bundledFontCache = new Map<string, Promise<FontData>>();
+
+export const isBundledFont = (id: string) => id in BUNDLED_FONT_FILES;
+
+export const loadBundledFont = (id: string) => {
+    let font = bundledFontCache.get(id);
+    if (!font) {
+        const file = BUNDLED_FONT_FILES[id];
+        if (!file) return Promise.reject(new Error(`Unknown font "${id}".`));
+        font = file.load().then(module => module.default as FontData);
+        bundledFontCache.set(id, font);
+    }
+    return font;
+};
+
+/**
+ * Read an uploaded TrueType or OpenType font
+ */
+export const readFontFile = async (file: File): Promise<FontOption & { data: FontData }> => {
+    let data: FontData;
+    try {
+        data = new TTFLoader().parse(await file.arrayBuffer());
+    } catch {
+        throw new Error('Could not read this font. Use a TTF or OTF file.');
+    }
+    const name = data.familyName || file.name.replace(/\.[^.]+$/, '');
+    return { id: `upload:${name}`, name, data };
+};
+
+type Segment = { command: 'M' | 'L' | 'Q' | 'C' | 'Z'; points: number[] };
+
+/**
+ * A glyph's outline in font units, Y up. Typeface outlines list a curve's end
+ * point before its control points.
+ */
+const glyphSegments = (outline: string): Segment[] => {
+    const tokens = outline.split(' ');
+    const segments: Segment[] = [];
+    let i = 0;
+    const read = (count: number) => tokens.slice(i, (i += count)).map(Number);
+    while (i < tokens.length) {
+        const action = tokens[i++];
+        if (action === 'm') {
+            if (segments.length > 0) segments.push({ command: 'Z', points: [] });
+            segments.push({ command: 'M', points: read(2) });
+        } else if (action === 'l') {
+            segments.push({ command: 'L', points: read(2) });
+        } else if (action === 'q') {
+            const [x, y, cpx, cpy] = read(4);
+            segments.push({ command: 'Q', points: [cpx, cpy, x, y] });
+        } else if (action === 'b') {
+            const [x, y, cp1x, cp1y, cp2x, cp2y] = read(6);
+            segments.push({ command: 'C', points: [cp1x, cp1y, cp2x, cp2y, x, y] });
+        }
+    }
+    if (segments.length > 0) segments.push({ command: 'Z', points: [] });
+    return segments;
+};
+
+/**
+ * Height of the font's capitals in font units, from its H where it has one
+ */
+const capHeight = (font: FontData) => {
+    const outline = font.glyphs.H?.o;
+    const heights = outline ? glyphSegments(outline).flatMap(s => s.points.filter((_, i) => i % 2 === 1)) : [];
+    return heights.length > 0 ? Math.max(...heights) : font.ascender;
+};
+
+/**
+ * The text as SVG path data, `unitsPerMm` design units to the millimeter. The
+ * block is centered on the origin: across its widest line, and from the top of
+ * the first line's capitals to the last line's baseline.
+ */
+export const textPathData = (font: FontData, settings: TextSettings, unitsPerMm: number) => {
+    const letterHeight = settings.letterHeightMm * unitsPerMm;
+    const scale = letterHeight / capHeight(font);
+    const spacing = settings.letterSpacing * letterHeight;
+    const glyphOf = (char: string) => font.glyphs[char] ?? font.glyphs['?'];
+
+    const lines = settings.text.split('\n').map(line => {
+        const glyphs = Array.from(line).map(glyphOf).filter(Boolean);
+        const width = glyphs.reduce((sum, glyph) => sum + glyph.ha * scale + spacing, 0) - (glyphs.length > 0 ? spacing : 0);
+        return { glyphs, width };
+    });
+    const blockWidth = Math.max(0, ...lines.map(line => line.width));
+    const lineStep = settings.lineHeight * letterHeight;
+    const top = -(letterHeight + (lines.length - 1) * lineStep) / 2;
+
+    const format = (value: number) => +value.toFixed(3);
+    const commands: string[] = [];
+    lines.forEach(({ glyphs, width }, row) => {
+        let x = settings.align === 'left' ? -blockWidth / 2
+            : settings.align === 'right' ? blockWidth / 2 - width
+            : -width / 2;
+        // SVG Y points down, so the outlines are turned over onto the baseline
+        const baseline = top + letterHeight + row * lineStep;
+        glyphs.forEach(glyph => {
+            if (glyph.o) {
+                glyphSegments(glyph.o).forEach(({ command, points }) => {
+                    const coordinates = points.map((value, i) => format(i % 2 === 0 ? x + value * scale : baseline - value * scale));
+                    commands.push([command, ...coordinates].join(' '));
+                });
+            }
+            x += glyph.ha * scale + spacing;
+        });
+    });
+    return commands.join(' ');
+};
+
+export const readTextBlock = (element: Element): TextBlock | null => {
+    const value = element.getAttribute(TEXT_BLOCK_ATTRIBUTE);
+    if (!value) return null;
+    try {
+        return { ...DEFAULT_TEXT_SETTINGS, fontName: '', flipped: false, ...JSON.parse(value) };
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * The text block a shape belongs to, if it is editable text
+ */
+export const textBlockOf = (element: Element) => element.closest<SVGGElement>(`[${TEXT_BLOCK_ATTRIBUTE}]`);
+
+const writeTextBlock = (group: Element, block: TextBlock) => group.setAttribute(TEXT_BLOCK_ATTRIBUTE, JSON.stringify(block));
+
+/**
+ * A text block's outline and settings, placed with its center at (x, y) in
+ * the parent's user space
+ */
+export const createTextBlock = (document: Document, block: TextBlock, pathData: string, x: number, y: number) => {
+    const group = document.createElementNS(SVG_NS, 'g');
+    writeTextBlock(group, block);
+    group.setAttribute('transform', `translate(${+x.toFixed(3)} ${+y.toFixed(3)})`);
+    const path = document.createElementNS(SVG_NS, 'path');
+    path.setAttribute('d', pathData);
+    path.setAttribute('fill', '#000000');
+    if (block.flipped) path.setAttribute('transform', 'scale(-1 1)');
+    group.appendChild(path);
+    return group;
+};
+
+/**
+ * Lay a text block out again with new settings. The outline keeps its fill and
+ * any move, scale or rotation it has been given since.
+ */
+export const updateTextBlock = (group: SVGGElement, settings: TextSettings, fontName: string, pathData: string) => {
+    const block = readTextBlock(group);
+    group.querySelector('path')?.setAttribute('d', pathData);
+    writeTextBlock(group, { ...settings, fontName, flipped: block?.flipped ?? false });
+};
+
+/**
+ * Turn a text block into plain artwork that is no longer laid out as text
+ */
+export const flattenTextBlock = (group: SVGGElement) => group.removeAttribute(TEXT_BLOCK_ATTRIBUTE);
+
+/**
+ * Flip every editable text block that doesn't match `flipped`, so its text
+ * prints the right way round after the block's mirroring changes. Outlines
+ * are centered on their block's origin, so each flips in place.
+ */
+export const flipTextBlocks = (svgString: string, flipped: boolean) => {
+    const doc = new DOMParser().parseFromString(svgString, 'image/svg+xml');
+    const groups = Array.from(doc.querySelectorAll<SVGGElement>(`[${TEXT_BLOCK_ATTRIBUTE}]`));
+    let changed = false;
+    groups.forEach(group => {
+        const block = readTextBlock(group);
+        const path = group.querySelector('path');
+        if (!block || !path || block.flipped === flipped) return;
+        const consolidated = path.transform.baseVal.consolidate();
+        const local = consolidated ? DOMMatrix.fromMatrix(consolidated.matrix) : new DOMMatrix();
+        path.setAttribute('transform', matrixAttribute(local.scale(-1, 1)));
+        writeTextBlock(group, { ...block, flipped });
+        changed = true;
+    });
+    return changed ? new XMLSerializer().serializeToString(doc.documentElement) : svgString;
+};
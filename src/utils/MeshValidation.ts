@@ -0,0 +1,188 @@
+import * as THREE from 'three';
+import { collectTriangles } from './Slicer';
+
+// Vertices closer than this (mm) are welded into one
+const WELD_TOLERANCE = 1e-4;
+// Triangles with less area than this (mm²) are dropped as degenerate
+const DEGENERATE_AREA = 1e-8;
+
+export interface MeshReport {
+    triangles: number;              // After repair
+    weldedVertices: number;         // Distinct but coincident vertices merged
+    degenerateTriangles: number;    // Zero-area faces removed
+    rewoundTriangles: number;       // Faces flipped to agree with their neighbours
+    invertedIslands: number;        // Closed islands whose normals pointed inwards, flipped
+    islands: number;                // Disconnected pieces
+    boundaryEdges: number;          // Open edges left after repair
+    nonManifoldEdges: number;       // Edges shared by more than two faces
+}
+
+export interface RepairResult {
+    group: THREE.Group;
+    report: MeshReport;
+}
+
+/**
+ * A mesh is safe to slice when it is closed and every edge joins exactly two faces
+ */
+export const isWatertight = (report: MeshReport) => report.boundaryEdges === 0 && report.nonManifoldEdges === 0;
+
+/**
+ * Merge vertices within WELD_TOLERANCE and return one index triple per triangle
+ */
+const weldVertices = (positions: Float32Array, count: number) => {
+    const keys = new Map<string, number>();
+    const exact = new Set<string>();
+    const vertices: number[] = [];
+    const faces = new Uint32Array(count * 3);
+
+    for (let i = 0; i < count * 3; i++) {
+        const x = positions[i * 3];
+        const y = positions[i * 3 + 1];
+        const z = positions[i * 3 + 2];
+        exact.add(`${x},${y},${z}`);
+        const key = `${Math.round(x / WELD_TOLERANCE)},${Math.round(y / WELD_TOLERANCE)},${Math.round(z / WELD_TOLERANCE)}`;
+        let index = keys.get(key);
+        if (index === undefined) {
+            index = vertices.length / 3;
+            keys.set(key, index);
+            vertices.push(x, y, z);
+        }
+        faces[i] = index;
+    }
+
+    return { vertices, faces, welded: exact.size - keys.size };
+};
+
+const triangleArea = (vertices: number[], a: number, b: number, c: number) => {
+    const ab = new THREE.Vector3(vertices[b * 3] - vertices[a * 3], vertices[b * 3 + 1] - vertices[a * 3 + 1], vertices[b * 3 + 2] - vertices[a * 3 + 2]);
+    const ac = new THREE.Vector3(vertices[c * 3] - vertices[a * 3], vertices[c * 3 + 1] - vertices[a * 3 + 1], vertices[c * 3 + 2] - vertices[a * 3 + 2]);
+    return ab.cross(ac).length() / 2;
+};
+
+const edgeKey = (a: number, b: number) => (a < b ? `${a}_${b}` : `${b}_${a}`);
+
+/**
+ * Check the model for the defects that make slicers choke and fix what can be
+ * fixed automatically: weld coincident vertices, drop degenerate faces, make
+ * face winding consistent and turn inside-out islands the right way round.
+ * The returned group holds one repaired mesh in the original group's frame.
+ */
+export const repairModel = (model: THREE.Group): RepairResult => {
+    const soup = collectTriangles(model);
+    const { vertices, faces: welded, welded: weldedVertices } = weldVertices(soup.positions, soup.count);
+
+    const faces: [number, number, number][] = [];
+    let degenerateTriangles = 0;
+    for (let t = 0; t < soup.count; t++) {
+        const [a, b, c] = [welded[t * 3], welded[t * 3 + 1], welded[t * 3 + 2]];
+        if (a === b || b === c || a === c || triangleArea(vertices, a, b, c) < DEGENERATE_AREA) {
+            degenerateTriangles++;
+            continue;
+        }
+        faces.push([a, b, c]);
+    }
+
+    const edges = new Map<string, number[]>();
+    faces.forEach((face, t) => {
+        for (let e = 0; e < 3; e++) {
+            const key = edgeKey(face[e], face[(e + 1) % 3]);
+            const users = edges.get(key);
+            if (users) users.push(t);
+            else edges.set(key, [t]);
+        }
+    });
+
+    // Does face t walk the edge a→b in that direction?
+    const traverses = (t: number, a: number, b: number) => {
+        const face = faces[t];
+        return [0, 1, 2].some(e => face[e] === a && face[(e + 1) % 3] === b);
+    };
+    const flipped = new Uint8Array(faces.length);
+    const flip = (t: number) => {
+        const [a, b, c] = faces[t];
+        faces[t] = [a, c, b];
+        flipped[t] ^= 1;
+    };
+
+    // Walk each island across manifold edges; a neighbour must traverse the shared edge the other way
+    const island = new Int32Array(faces.length).fill(-1);
+    let islands = 0;
+    let rewoundTriangles = 0;
+    let invertedIslands = 0;
+
+    for (let seed = 0; seed < faces.length; seed++) {
+        if (island[seed] !== -1) continue;
+        const members: number[] = [];
+        const queue = [seed];
+        island[seed] = islands;
+
+        while (queue.length > 0) {
+            const t = queue.pop()!;
+            members.push(t);
+            for (let e = 0; e < 3; e++) {
+                const a = faces[t][e];
+                const b = faces[t][(e + 1) % 3];
+                const users = edges.get(edgeKey(a, b))!;
+                users.forEach(n => {
+                    if (n === t || island[n] !== -1) return;
+                    island[n] = islands;
+                    if (users.length === 2 && traverses(n, a, b)) flip(n);
+                    queue.push(n);
+                });
+            }
+        }
+
+        // The walk starts from an arbitrary face; if that face was the odd one out,
+        // most of the island got flipped, so turn it back to the majority winding
+        if (members.filter(t => flipped[t]).length * 2 > members.length) members.forEach(flip);
+
+        // Consistent but negative volume means the whole island is inside out
+        const isClosed = members.every(t => [0, 1, 2].every(e => edges.get(edgeKey(faces[t][e], faces[t][(e + 1) % 3]))!.length === 2));
+        let volume = 0;
+        if (isClosed) {
+            members.forEach(t => {
+                const [a, b, c] = faces[t].map(i => new THREE.Vector3(vertices[i * 3], vertices[i * 3 + 1], vertices[i * 3 + 2]));
+                volume += a.dot(b.cross(c)) / 6;
+            });
+        }
+        rewoundTriangles += members.filter(t => flipped[t]).length;
+        if (volume < 0) {
+            members.forEach(flip);
+            invertedIslands++;
+        }
+        islands++;
+    }
+
+    let boundaryEdges = 0;
+    let nonManifoldEdges = 0;
+    edges.forEach(users => {
+        if (users.length === 1) boundaryEdges++;
+        else if (users.length > 2) nonManifoldEdges++;
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+    geometry.setIndex(faces.flat());
+    geometry.computeVertexNormals();
+
+    const group = new THREE.Group();
+    group.add(new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: 0x808080 })));
+    group.rotation.copy(model.rotation);
+    // Exporters read matrixWorld, and this group never joins a scene that would update it
+    group.updateMatrixWorld(true);
+
+    return {
+        group,
+        report: {
+            triangles: faces.length,
+            weldedVertices,
+            degenerateTriangles,
+            rewoundTriangles,
+            invertedIslands,
+            islands,
+            boundaryEdges,
+            nonManifoldEdges,
+        },
+    };
+};
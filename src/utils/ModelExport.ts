@@ -0,0 +1,199 @@
+import * as THREE from 'three';
+import { zipSync, strToU8 } from 'three/examples/jsm/libs/fflate.module.js';
+
+// Vertices closer than this (mm) share an index in the exported mesh
+const VERTEX_PRECISION = 1e4;
+
+export interface ExportBody {
+    name: string;
+    color: THREE.Color;
+    vertices: number[];     // xyz per vertex, in mm with Z up
+    triangles: number[];    // Three vertex indices per face, counter-clockwise from outside
+}
+
+const hexColor = (color: THREE.Color) => `#${color.getHexString().toUpperCase()}`;
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Index a triangle soup, sharing vertices that land on the same position
+ */
+const indexTriangles = (name: string, color: THREE.Color, positions: number[]): ExportBody => {
+    const lookup = new Map<string, number>();
+    const vertices: number[] = [];
+    const triangles: number[] = [];
+    for (let i = 0; i < positions.length; i += 3) {
+        const [x, y, z] = [positions[i], positions[i + 1], positions[i + 2]];
+        const key = `${Math.round(x * VERTEX_PRECISION)},${Math.round(y * VERTEX_PRECISION)},${Math.round(z * VERTEX_PRECISION)}`;
+        let index = lookup.get(key);
+        if (index === undefined) {
+            index = vertices.length / 3;
+            lookup.set(key, index);
+            vertices.push(x, y, z);
+        }
+        triangles.push(index);
+    }
+    return { name, color, vertices, triangles };
+};
+
+/**
+ * Split a model into named, colored bodies in its own build frame (mm, Z up,
+ * base plate from Z=0). Meshes with one material per group, like the block from
+ * create3DModel, become one body per material; the shared seam kept by the
+ * generator caps each one so the base and the relief are both closed solids.
+ */
+export const extractBodies = (group: THREE.Group): ExportBody[] => {
+    group.updateMatrixWorld(true);
+    const toModelSpace = group.matrixWorld.clone().invert();
+    const bodies: ExportBody[] = [];
+    const v = new THREE.Vector3();
+
+    group.traverse((child) => {
+        if (!(child instanceof THREE.Mesh)) return;
+        const geometry = child.geometry as THREE.BufferGeometry;
+        const position = geometry.getAttribute('position');
+        if (!position) return;
+        const matrix = toModelSpace.clone().multiply(child.matrixWorld);
+        const index = geometry.getIndex();
+
+        const collect = (start: number, count: number) => {
+            const positions: number[] = [];
+            for (let i = start; i < start + count; i++) {
+                v.fromBufferAttribute(position, index ? index.getX(i) : i).applyMatrix4(matrix);
+                positions.push(v.x, v.y, v.z);
+            }
+            return positions;
+        };
+        const seamTriangles = (seam: number[], facingUp: boolean) => {
+            const positions: number[] = [];
+            for (let i = 0; i < seam.length; i += 9) {
+                const order = facingUp ? [0, 1, 2] : [0, 2, 1];
+                order.forEach(k => {
+                    v.fromArray(seam, i + k * 3).applyMatrix4(matrix);
+                    positions.push(v.x, v.y, v.z);
+                });
+            }
+            return positions;
+        };
+
+        const materials = Array.isArray(child.material) ? child.material : [child.material];
+        const colorOf = (material: THREE.Material) =>
+            material instanceof THREE.MeshStandardMaterial ? material.color.clone() : new THREE.Color(0x808080);
+
+        if (!Array.isArray(child.material) || geometry.groups.length === 0) {
+            const name = materials[0].name || child.name || `Body ${bodies.length + 1}`;
+            bodies.push(indexTriangles(name, colorOf(materials[0]), collect(0, index ? index.count : position.count)));
+            return;
+        }
+
+        // Group 0 is the plate and group 1 the relief; the seam closes the plate's top and the relief's bottom
+        const seam: number[] = geometry.userData.seam ?? [];
+        geometry.groups.forEach((part, i) => {
+            const material = materials[part.materialIndex ?? 0];
+            const positions = collect(part.start, part.count);
+            if (seam.length > 0 && i < 2) positions.push(...seamTriangles(seam, i === 0));
+            bodies.push(indexTriangles(material.name || `Body ${bodies.length + 1}`, colorOf(material), positions));
+        });
+    });
+
+    return bodies.filter(body => body.triangles.length > 0);
+};
+
+/**
+ * 3MF package with one named object per body and a base material per color,
+ * in millimeters, so multi-material slicers can assign a filament to each body
+ */
+export const export3MF = (bodies: ExportBody[]): Blob => {
+    const materials = bodies
+        .map(body => `      <base name="${escapeXml(body.name)}" displaycolor="${hexColor(body.color)}" />`)
+        .join('\n');
+
+    const objects = bodies.map((body, i) => {
+        const vertices: string[] = [];
+        for (let k = 0; k < body.vertices.length; k += 3) {
+            vertices.push(`          <vertex x="${body.vertices[k].toFixed(4)}" y="${body.vertices[k + 1].toFixed(4)}" z="${body.vertices[k + 2].toFixed(4)}" />`);
+        }
+        const triangles: string[] = [];
+        for (let k = 0; k < body.triangles.length; k += 3) {
+            triangles.push(`          <triangle v1="${body.triangles[k]}" v2="${body.triangles[k + 1]}" v3="${body.triangles[k + 2]}" />`);
+        }
+        return [
+            `    <object id="${i + 2}" name="${escapeXml(body.name)}" type="model" pid="1" pindex="${i}">`,
+            '      <mesh>',
+            '        <vertices>',
+            ...vertices,
+            '        </vertices>',
+            '        <triangles>',
+            ...triangles,
+            '        </triangles>',
+            '      </mesh>',
+            '    </object>',
+        ].join('\n');
+    }).join('\n');
+
+    const items = bodies.map((_, i) => `    <item objectid="${i + 2}" />`).join('\n');
+
+    const model = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <metadata name="Application">Linolium3D</metadata>
+  <resources>
+    <basematerials id="1">
+${materials}
+    </basematerials>
+${objects}
+  </resources>
+  <build>
+${items}
+  </build>
+</model>
+`;
+
+    const contentTypes = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml" />
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml" />
+</Types>
+`;
+
+    const relationships = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel" />
+</Relationships>
+`;
+
+    const archive = zipSync({
+        '[Content_Types].xml': strToU8(contentTypes),
+        '_rels/.rels': strToU8(relationships),
+        '3D/3dmodel.model': strToU8(model),
+    });
+    return new Blob([archive as Uint8Array<ArrayBuffer>], { type: 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml' });
+};
+
+/**
+ * Wavefront OBJ with one object per body and a matching MTL library. OBJ has no
+ * unit field, so coordinates are written in millimeters with Z up, which is what
+ * slicers assume when importing it.
+ */
+export const exportOBJ = (bodies: ExportBody[], mtlFilename: string) => {
+    const obj: string[] = ['# Linolium3D block print', '# Units: millimeters, Z up', `mtllib ${mtlFilename}`];
+    const mtl: string[] = ['# Linolium3D block print materials'];
+    let offset = 1; // OBJ indices are 1-based and global across objects
+
+    bodies.forEach(body => {
+        const materialName = body.name.replace(/\s+/g, '_');
+        const { r, g, b } = body.color.getRGB({ r: 0, g: 0, b: 0 }, THREE.SRGBColorSpace);
+        mtl.push('', `newmtl ${materialName}`, `Kd ${r.toFixed(4)} ${g.toFixed(4)} ${b.toFixed(4)}`, 'Ka 0 0 0', 'Ks 0 0 0', 'd 1', 'illum 1');
+
+        obj.push('', `o ${materialName}`, `usemtl ${materialName}`);
+        for (let k = 0; k < body.vertices.length; k += 3) {
+            obj.push(`v ${body.vertices[k].toFixed(4)} ${body.vertices[k + 1].toFixed(4)} ${body.vertices[k + 2].toFixed(4)}`);
+        }
+        for (let k = 0; k < body.triangles.length; k += 3) {
+            obj.push(`f ${body.triangles[k] + offset} ${body.triangles[k + 1] + offset} ${body.triangles[k + 2] + offset}`);
+        }
+        offset += body.vertices.length / 3;
+    });
+
+    return { obj: obj.join('\n') + '\n', mtl: mtl.join('\n') + '\n' };
+};
@@ -1,61 +1,597 @@
 import * as THREE from 'three';
 import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
+import { Font } from 'three/examples/jsm/loaders/FontLoader.js';
+import type { FontData } from 'three/examples/jsm/loaders/FontLoader.js';
+import helvetiker from 'three/examples/fonts/helvetiker_regular.typeface.json';
+import type { ShapePath } from 'three';
+import { CLIPPER_SCALE, intersectRegions, offsetRegion, snapToGrid, subtractRegions, unionRegions } from './Regions';
+import type { MultiPolygon, Pair, Polygon, Ring } from './Regions';
+import { INCH_TO_MM } from './Units';
 
-// Conversion: 1 inch = 25.4 mm
-const INCH_TO_MM = 25.4;
+// Tapered shoulders are built as stacked bands about one print layer tall
+const SHOULDER_STEP_MM = 0.2;
+const MAX_SHOULDER_BANDS = 24;
+// Clipping rounds crossings to its grid, so points this close (mm) to an edge count as on it
+const EDGE_TOLERANCE_MM = 2 / CLIPPER_SCALE;
+// A design side shorter than this fraction of the other has collapsed to a line
+const MIN_DESIGN_EXTENT = 1e-9;
+
+// Base plate accessories
+const CORNER_SEGMENTS = 8;              // Segments per rounded plate corner
+const HANGING_HOLE_DIAMETER_MM = 5;
+const HANGING_HOLE_INSET_MM = 6;        // From the top edge to the hole's center
+const KNOB_DIAMETER_MM = 25;
+const KNOB_HEIGHT_MM = 20;
+const RIDGE_WIDTH_MM = 10;
+const RIDGE_HEIGHT_MM = 12;
+const LABEL_DEPTH_MM = 0.6;             // Never more than a third of the base
+const LABEL_SIZE_MM = 5;                // Largest cap height for the engraved text
+const LABEL_MIN_SIZE_MM = 1.5;          // Below this the engraving won't print legibly, so it is left off
+const LABEL_INSET_MM = 4;               // Clearance from the plate edge and the grip
+
+const labelFont = new Font(helvetiker as unknown as FontData);
+
+// Registration jig: an L-shaped fence the block and the paper are both pushed against
+const JIG_PLATE_MM = 2;         // Thickness of the jig floor
+const JIG_FENCE_MM = 6;         // Width of the fence walls
+const JIG_CLEARANCE_MM = 0.4;   // Gap so the block slides in without binding
+
+export type PlateFit = 'target' | 'design';
+export type PlateHandle = 'none' | 'knob' | 'ridge';
+export type DesignFit = 'fit' | 'fill' | 'stretch';
 
 export interface ModelDimensions {
-    targetWidthInches: number;   // Width in inches (X dimension)
-    targetLengthInches: number;  // Length in inches (Y dimension)
+    targetWidthMm: number;       // Width (X dimension)
+    targetLengthMm: number;      // Length (Y dimension)
     extrusionDepthMm: number;    // Extrusion height in mm
     baseThicknessMm: number;     // Base plate thickness in mm
     curveSegments: number;       // Number of segments for curves (lower = fewer triangles)
+    mirrorForPrinting: boolean;  // Flip the relief so the impression on paper reads like the SVG
+    shoulderAngleDeg: number;    // Draft of the relief walls from vertical; 0 = straight walls
+    shoulderFilletMm: number;    // Radius of the concave fillet where the relief meets the base
+    plateFit: PlateFit;          // 'target' keeps the full target size; 'design' trims the plate to the design plus the margin and offset
+    plateMarginMm: number;       // Clear border between the design and the plate edge
+    plateCornerRadiusMm: number; // 0 = square corners
+    plateHandle: PlateHandle;    // Grip standing off the back of the plate
+    hangingHole: boolean;        // Hole through the block near its top edge
+    engraveLabel: boolean;       // Engrave the design name, color and date into the back
+    designFit: DesignFit;        // 'fit' shows the whole design, 'fill' covers the design area and crops the rest, 'stretch' does both by distorting it
+    designScalePercent: number;  // Further scaling of the fitted design
+    designRotationDeg: number;   // Counterclockwise as seen on the paper
+    designOffsetXMm: number;     // Design center from the plate center, as seen on the paper; +X right
+    designOffsetYMm: number;     // +Y up
+    designPaddingMm: number;     // Extra room around the design inside the margin
 }
 
-export const create3DModel = (
-    svgString: string,
-    dimensions: ModelDimensions = {
-        targetWidthInches: 4,
-        targetLengthInches: 5,
-        extrusionDepthMm: 3,
-        baseThicknessMm: 3,
-        curveSegments: 4  // Low default for fewer triangles (~295k or less)
+export const DEFAULT_MODEL_DIMENSIONS: ModelDimensions = {
+    targetLengthMm: 5 * INCH_TO_MM,     // Y dimension - 5 inches
+    targetWidthMm: 4 * INCH_TO_MM,      // X dimension - 4 inches
+    baseThicknessMm: 3,         // Base thickness - 3mm
+    extrusionDepthMm: 3,        // Extrusion depth - 3mm
+    curveSegments: 4,           // Low for fewer triangles (~295k or less)
+    mirrorForPrinting: true,    // Impression reads like the uploaded design
+    shoulderAngleDeg: 0,        // Straight relief walls
+    shoulderFilletMm: 0,        // Sharp corner where the relief meets the base
+    plateFit: 'target',         // Plate is the full target size
+    plateMarginMm: 0,
+    plateCornerRadiusMm: 0,
+    plateHandle: 'none',
+    hangingHole: false,
+    engraveLabel: false,
+    designFit: 'fit',           // Whole design, centered, aspect ratio kept
+    designScalePercent: 100,
+    designRotationDeg: 0,
+    designOffsetXMm: 0,
+    designOffsetYMm: 0,
+    designPaddingMm: 0,
+};
+
+export interface BlockLabel {
+    name: string;                // Design name, usually the source image's file name
+    colorIndex?: number;         // 1-based block number in a reduction print
+    colorCount?: number;
+    date?: Date;                 // Defaults to today
+}
+
+export interface ModelOptions {
+    frame?: THREE.Box2;          // Fit this SVG-space rectangle instead of the paths' own bounds, so separately generated blocks line up
+    label?: BlockLabel;          // Engraved on the back when dimensions.engraveLabel is set
+}
+
+/**
+ * Whether a path of this color is ink; lighter paths are background. Takes the
+ * linear color SVGLoader parses fills into.
+ */
+export const isInkColor = (color: THREE.Color) => (color.r + color.g + color.b) / 3 <= 0.5;
+
+/**
+ * Outline of one SVG shape as polygon rings in SVG space: the outer contour
+ * followed by its holes. Fill-rule aware, since SVGLoader decides which
+ * subpaths are holes from the path's `fill-rule`.
+ */
+const shapeToPolygon = (shape: THREE.Shape, curveSegments: number): Polygon => {
+    const { shape: outer, holes } = shape.extractPoints(curveSegments);
+    return [outer, ...holes]
+        .filter(points => points.length >= 3)
+        .map(points => points.map(p => [p.x, p.y] as Pair));
+};
+
+/**
+ * Every filled outline of one SVG path, placed by `transform`
+ */
+export const pathPolygons = (path: ShapePath, curveSegments: number, transform: (pair: Pair) => Pair): MultiPolygon =>
+    SVGLoader.createShapes(path)
+        .map(shape => shapeToPolygon(shape, curveSegments).map(ring => ring.map(transform)))
+        .filter(polygon => polygon.length > 0);
+
+/**
+ * Merge every path into the inked region, in paint order and placed by
+ * `transform`. Dark paths add ink; light paths painted on top (the counters
+ * vtracer stacks over a letter) cut it away again. The union removes the
+ * overlaps that would otherwise extrude into intersecting shells.
+ */
+const inkRegion = (paths: ShapePath[], curveSegments: number, transform: (pair: Pair) => Pair): MultiPolygon => {
+    let region: MultiPolygon = [];
+    // Consecutive dark paths are unioned in one pass, which is much faster than one at a time
+    let pendingInk: Polygon[] = [];
+    const flushInk = () => {
+        if (pendingInk.length > 0) region = unionRegions(region, pendingInk);
+        pendingInk = [];
+    };
+
+    paths.forEach(path => {
+        const polygons = pathPolygons(path, curveSegments, transform);
+        if (polygons.length === 0) return;
+
+        // Filter out background paths (lighter colors)
+        if (!isInkColor(path.color)) {
+            flushInk();
+            if (region.length > 0) region = subtractRegions(region, polygons);
+        } else {
+            pendingInk.push(...polygons);
+        }
+    });
+    flushInk();
+    return region;
+};
+
+const signedArea = (ring: THREE.Vector2[]) => {
+    let area = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        area += (ring[j].x - ring[i].x) * (ring[j].y + ring[i].y);
     }
-) => {
-    const loader = new SVGLoader();
-    const svgData = loader.parse(svgString);
-    const paths = svgData.paths;
-    const group = new THREE.Group();
+    return area / 2;
+};
 
-    if (paths.length === 0) {
-        console.warn('No paths found in SVG string');
-        return group;
+/**
+ * Convert a closed ring to model space and orient it: outers
+ * counter-clockwise and holes clockwise when seen from above. Drops the
+ * repeated closing point and any zero-length edges.
+ */
+const toModelRing = (ring: Ring, transform: (pair: Pair) => THREE.Vector2, isHole: boolean) => {
+    const points: THREE.Vector2[] = [];
+    ring.forEach(pair => {
+        const point = transform(pair);
+        if (points.length === 0 || !point.equals(points[points.length - 1])) points.push(point);
+    });
+    if (points.length > 1 && points[0].equals(points[points.length - 1])) points.pop();
+    if ((signedArea(points) > 0) === isHole) points.reverse();
+    return points;
+};
+
+/**
+ * Insert any of `points` that lie on the ring's edges, so faces meeting the
+ * ring there share vertices instead of leaving T-junctions
+ */
+const splitRingAt = (ring: THREE.Vector2[], points: THREE.Vector2[], epsilon = EDGE_TOLERANCE_MM) => {
+    const result: THREE.Vector2[] = [];
+    ring.forEach((p, i) => {
+        const q = ring[(i + 1) % ring.length];
+        const edge = q.clone().sub(p);
+        const lengthSq = edge.lengthSq();
+        const onEdge = points
+            .map(point => ({ point, t: point.clone().sub(p).dot(edge) / lengthSq }))
+            .filter(({ point, t }) => t > epsilon && t < 1 - epsilon &&
+                Math.abs(edge.cross(point.clone().sub(p))) / Math.sqrt(lengthSq) < epsilon)
+            .sort((m, n) => m.t - n.t);
+        result.push(p, ...onEdge.map(({ point }) => point));
+    });
+    // Separate clipping runs can compute the same crossing a hair apart; keep only one of them
+    return result.filter((point, i) => i === 0 || point.distanceTo(result[i - 1]) > epsilon);
+};
+
+const pushTriangle = (positions: number[], a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) => {
+    positions.push(a.x, a.y, a.z, b.x, b.y, b.z, c.x, c.y, c.z);
+};
+
+/**
+ * Horizontal face at height z, facing up or down
+ */
+const addCap = (positions: number[], contour: THREE.Vector2[], holes: THREE.Vector2[][], z: number, facingUp: boolean) => {
+    // triangulateShape may drop repeated end points, so index into the rings afterwards
+    const triangles = THREE.ShapeUtils.triangulateShape(contour, holes);
+    const points = [contour, ...holes].flat();
+    // Earcut winds every triangle the same way, including zero-area slivers along collinear
+    // outline points, so orient them all by the winding of the cap as a whole
+    const cross = ([a, b, c]: number[]) =>
+        (points[b].x - points[a].x) * (points[c].y - points[a].y) -
+        (points[b].y - points[a].y) * (points[c].x - points[a].x);
+    const isCounterClockwise = triangles.reduce((sum, triangle) => sum + cross(triangle), 0) > 0;
+    triangles.forEach(([a, b, c]) => {
+        const [second, third] = isCounterClockwise === facingUp ? [b, c] : [c, b];
+        pushTriangle(
+            positions,
+            new THREE.Vector3(points[a].x, points[a].y, z),
+            new THREE.Vector3(points[second].x, points[second].y, z),
+            new THREE.Vector3(points[third].x, points[third].y, z)
+        );
+    });
+};
+
+/**
+ * Vertical walls along an oriented ring, facing away from the solid
+ */
+const addWalls = (positions: number[], ring: THREE.Vector2[], bottom: number, top: number) => {
+    for (let i = 0; i < ring.length; i++) {
+        const p = ring[i];
+        const q = ring[(i + 1) % ring.length];
+        const pb = new THREE.Vector3(p.x, p.y, bottom);
+        const qb = new THREE.Vector3(q.x, q.y, bottom);
+        const pt = new THREE.Vector3(p.x, p.y, top);
+        const qt = new THREE.Vector3(q.x, q.y, top);
+        pushTriangle(positions, pb, qb, qt);
+        pushTriangle(positions, pb, qt, pt);
     }
+};
 
-    // Convert target dimensions from inches to mm
-    const targetWidthMm = dimensions.targetWidthInches * INCH_TO_MM;
-    const targetLengthMm = dimensions.targetLengthInches * INCH_TO_MM;
-    const extrusionDepth = dimensions.extrusionDepthMm;
-    const baseThickness = dimensions.baseThicknessMm;
-    const curveSegments = dimensions.curveSegments;
+/**
+ * How far the shoulder reaches out at `height` mm above the base: a straight
+ * draft over the whole relief plus a quarter-circle fillet at its foot
+ */
+const shoulderOffset = (height: number, depth: number, angleDeg: number, filletMm: number) => {
+    const draft = (depth - height) * Math.tan((angleDeg * Math.PI) / 180);
+    const radius = Math.min(filletMm, depth);
+    const fillet = height < radius ? radius - Math.sqrt(radius * radius - (radius - height) ** 2) : 0;
+    return draft + fillet;
+};
+
+const rectangle = (minX: number, minY: number, maxX: number, maxY: number): Polygon =>
+    [[[minX, minY], [maxX, minY], [maxX, maxY], [minX, maxY], [minX, minY]]];
+
+/**
+ * Rectangle with its corners rounded off; a radius of half the short side gives a stadium
+ */
+const roundedRectangle = (minX: number, minY: number, maxX: number, maxY: number, radius: number): Polygon => {
+    const r = Math.min(radius, (maxX - minX) / 2, (maxY - minY) / 2);
+    if (r <= 0) return rectangle(minX, minY, maxX, maxY);
+
+    const corners: [number, number, number][] = [
+        [maxX - r, minY + r, -Math.PI / 2],
+        [maxX - r, maxY - r, 0],
+        [minX + r, maxY - r, Math.PI / 2],
+        [minX + r, minY + r, Math.PI],
+    ];
+    const ring: Pair[] = corners.flatMap(([cx, cy, start]) =>
+        Array.from({ length: CORNER_SEGMENTS + 1 }, (_, i) => {
+            const angle = start + (i / CORNER_SEGMENTS) * (Math.PI / 2);
+            return [cx + r * Math.cos(angle), cy + r * Math.sin(angle)] as Pair;
+        }));
+    // Where a side has no straight part left, neighbouring arcs share an end point
+    const distinct = ring.filter((p, i) => i === 0 || Math.hypot(p[0] - ring[i - 1][0], p[1] - ring[i - 1][1]) > 1e-9);
+    if (Math.hypot(distinct[0][0] - distinct[distinct.length - 1][0], distinct[0][1] - distinct[distinct.length - 1][1]) <= 1e-9) distinct.pop();
+    return [[...distinct, distinct[0]]];
+};
+
+const circle = (cx: number, cy: number, radius: number, segments = 24): Polygon => {
+    const ring = Array.from({ length: segments }, (_, i) => {
+        const angle = (i / segments) * Math.PI * 2;
+        return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)] as Pair;
+    });
+    return [[...ring, ring[0]]];
+};
+
+/**
+ * Text lines as outlines, centered in `box` and as large as fits up to
+ * LABEL_SIZE_MM. X is mirrored so the text reads correctly when the block is
+ * turned over to look at its back. Empty when the text would be too small.
+ */
+const labelRegion = (lines: string[], box: THREE.Box2): MultiPolygon => {
+    const lineHeight = 1.5;    // In font sizes
+    const polygons: Polygon[] = [];
+    let textWidth = 0;
+    lines.forEach((line, row) => {
+        const shapes = labelFont.generateShapes(line, 1);
+        if (shapes.length === 0) return;
+        const bounds = new THREE.Box2();
+        shapes.forEach(shape => bounds.union(new THREE.Box2().setFromPoints(shape.getPoints())));
+        const width = bounds.max.x - bounds.min.x;
+        textWidth = Math.max(textWidth, width);
+        shapes.forEach(shape => polygons.push(
+            shapeToPolygon(shape, 4).map(ring => ring.map(([x, y]) => [x - bounds.min.x - width / 2, y - row * lineHeight] as Pair))
+        ));
+    });
+    if (polygons.length === 0) return [];
+
+    // Rows run downwards from the first line's baseline; center the block vertically on its cap heights
+    const textHeight = (lines.length - 1) * lineHeight + 1;
+    const size = Math.min(LABEL_SIZE_MM, (box.max.x - box.min.x) / textWidth, (box.max.y - box.min.y) / textHeight);
+    if (size < LABEL_MIN_SIZE_MM) return [];
+
+    const center = box.getCenter(new THREE.Vector2());
+    const offsetY = 1 - textHeight / 2;
+    return unionRegions(polygons.map(polygon => polygon.map(ring =>
+        ring.map(([x, y]) => [center.x - x * size, center.y + (y - offsetY) * size] as Pair))));
+};
+
+/**
+ * One horizontal slab of the relief. A straight relief is a single band; a
+ * tapered one is a stack of bands, bottom to top, each footprint containing the
+ * one above it. Footprints may reach past the plate; they are clipped to it.
+ */
+interface ReliefBand {
+    footprint: MultiPolygon;
+    bottom: number;
+    top: number;
+}
+
+/**
+ * What goes on the underside of the plate: text recessed into it and a grip
+ * standing off it. Both must lie inside the plate and clear of each other.
+ */
+interface PlateBack {
+    engraving: MultiPolygon;
+    engravingDepth: number;
+    handle: MultiPolygon;
+    handleHeight: number;
+}
+
+const PLAIN_BACK: PlateBack = { engraving: [], engravingDepth: 0, handle: [], handleHeight: 0 };
+
+const onSegment = (p: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2, epsilon = EDGE_TOLERANCE_MM) => {
+    if (p.x < Math.min(a.x, b.x) - epsilon || p.x > Math.max(a.x, b.x) + epsilon ||
+        p.y < Math.min(a.y, b.y) - epsilon || p.y > Math.max(a.y, b.y) + epsilon) return false;
+    const edge = b.clone().sub(a);
+    return Math.abs(edge.cross(p.clone().sub(a))) <= epsilon * edge.length();
+};
+
+/**
+ * Build a plate with a relief standing on it as one watertight solid. The plate
+ * may have holes, which run through the relief as well. Its exposed top is the
+ * plate minus the lowest footprint, and each band's ledge is its footprint minus
+ * the next one, so neighbouring faces share edges; the relief is left open at
+ * the bottom where it merges in.
+ * Material group 0 is the plate and group 1 the relief. The lowest footprint is
+ * kept in `userData.seam` (facing up) so exporters can close each body separately.
+ */
+const buildPlateGeometry = (plateOutline: Polygon, bands: ReliefBand[], plateTop: number, back: PlateBack = PLAIN_BACK) => {
+    const identity = ([x, y]: Pair) => new THREE.Vector2(x, y);
+    // On the clipping grid, the plate's corners come out of every clip exactly as they went in
+    const plate = plateOutline.map(ring => ring.map(snapToGrid));
+    const clip = (region: MultiPolygon) => (region.length > 0 ? intersectRegions([plate], region) : []);
+    const solid = bands
+        .map(band => ({ ...band, footprint: clip(band.footprint), region: band.footprint }))
+        .filter(band => band.footprint.length > 0);
+    const footprints = solid.map(band => band.footprint);
+    // Ledges are cut from the unclipped regions and only then clipped: two footprints
+    // clipped by the same curved edge can differ by rounding alone, and subtracting
+    // them would leave zero-width slivers along it
+    const exposed = solid.length > 0 ? subtractRegions([plate], solid[0].region) : [plate];
+    const ledges = solid.map((band, k) =>
+        k + 1 < solid.length ? clip(subtractRegions(band.region, solid[k + 1].region)) : band.footprint);
+    const underside = back.engraving.length > 0 || back.handle.length > 0
+        ? subtractRegions([plate], back.engraving, back.handle)
+        : [plate];
 
+    // Outlines only gain vertices where they meet, and nested footprints meet on the
+    // plate's outline, so rings touching it are split at every point that lies on it
+    const outline = plate.map(ring => ring.map(identity));
+    const onOutline = (p: THREE.Vector2) =>
+        outline.some(ring => ring.some((a, i) => i + 1 < ring.length && onSegment(p, a, ring[i + 1])));
+    const edgePoints = [plate, ...exposed, ...footprints.flat(), ...ledges.flat()]
+        .flatMap(polygon => polygon.flat())
+        .map(identity)
+        .filter(onOutline);
+    const prepare = (ring: Ring, isHole: boolean) => {
+        const points = toModelRing(ring, identity, isHole);
+        return points.some(onOutline) ? splitRingAt(points, edgePoints) : points;
+    };
+    const orient = (polygon: Polygon) => ({
+        outer: prepare(polygon[0], false),
+        holes: polygon.slice(1).map(ring => prepare(ring, true)),
+    });
+
+    const positions: number[] = [];
+    underside.map(orient).forEach(({ outer, holes }) => addCap(positions, outer, holes, 0, false));
+    plate.forEach((ring, i) => addWalls(positions, prepare(ring, i > 0), 0, plateTop));
+    exposed.map(orient).forEach(({ outer, holes }) => addCap(positions, outer, holes, plateTop, true));
+
+    // The engraving is a pocket, so its outlines are walled like holes and its islands like outlines
+    back.engraving.forEach(polygon => {
+        polygon.forEach((ring, i) => addWalls(positions, toModelRing(ring, identity, i === 0), 0, back.engravingDepth));
+        const { outer, holes } = orient(polygon);
+        addCap(positions, outer, holes, back.engravingDepth, false);
+    });
+    back.handle.map(orient).forEach(({ outer, holes }) => {
+        [outer, ...holes].forEach(ring => addWalls(positions, ring, -back.handleHeight, 0));
+        addCap(positions, outer, holes, -back.handleHeight, false);
+    });
+    const plateVertexCount = positions.length / 3;
+
+    solid.forEach((band, k) => {
+        band.footprint.map(orient).forEach(({ outer, holes }) =>
+            [outer, ...holes].forEach(ring => addWalls(positions, ring, band.bottom, band.top)));
+        // The ledge left where the next band steps in (or the printing face, for the top band)
+        ledges[k].map(orient).forEach(({ outer, holes }) => addCap(positions, outer, holes, band.top, true));
+    });
+
+    const seam: number[] = [];
+    footprints[0]?.map(orient).forEach(({ outer, holes }) => addCap(seam, outer, holes, plateTop, true));
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.addGroup(0, plateVertexCount, 0);
+    geometry.addGroup(plateVertexCount, positions.length / 3 - plateVertexCount, 1);
+    geometry.computeVertexNormals();
+    geometry.userData.seam = seam;
+    return geometry;
+};
+
+/**
+ * How a design of the given size is scaled onto the block, and the size of the
+ * plate that carries it. The design area is the target less the margin and
+ * padding; the design is fitted to it as placed, turned by its rotation.
+ * Null for a design with no width or no height, which has no scale to fit at.
+ */
+export const measurePlate = (dimensions: ModelDimensions, designWidth: number, designHeight: number) => {
+    if (!(Math.min(designWidth, designHeight) > MIN_DESIGN_EXTENT * Math.max(designWidth, designHeight))) return null;
+    const { targetWidthMm, targetLengthMm } = dimensions;
+    // Always leave at least a millimeter of design
+    const inset = Math.max(0, Math.min(
+        dimensions.plateMarginMm + dimensions.designPaddingMm,
+        (targetWidthMm - 1) / 2,
+        (targetLengthMm - 1) / 2
+    ));
+    const areaWidth = targetWidthMm - 2 * inset;
+    const areaLength = targetLengthMm - 2 * inset;
+
+    const angle = THREE.MathUtils.degToRad(dimensions.designRotationDeg);
+    const cos = Math.abs(Math.cos(angle));
+    const sin = Math.abs(Math.sin(angle));
+    const rotatedWidth = designWidth * cos + designHeight * sin;
+    const rotatedHeight = designWidth * sin + designHeight * cos;
+    const fitX = areaWidth / rotatedWidth;
+    const fitY = areaLength / rotatedHeight;
+
+    // Stretching pulls the design's own axes, which lie across the plate once it is turned past 45°
+    const zoom = dimensions.designScalePercent / 100;
+    let scaleX = (dimensions.designFit === 'fill' ? Math.max(fitX, fitY) : Math.min(fitX, fitY)) * zoom;
+    let scaleY = scaleX;
+    if (dimensions.designFit === 'stretch') {
+        [scaleX, scaleY] = sin > cos
+            ? [areaLength / designWidth * zoom, areaWidth / designHeight * zoom]
+            : [areaWidth / designWidth * zoom, areaLength / designHeight * zoom];
+    }
+
+    const placed = {
+        scale: Math.sqrt(scaleX * scaleY),  // Average mm per SVG unit, for measuring
+        scaleX,
+        scaleY,
+        areaWidthMm: areaWidth,
+        areaLengthMm: areaLength,
+    };
+    if (dimensions.plateFit !== 'design') return { ...placed, widthMm: targetWidthMm, lengthMm: targetLengthMm };
+
+    // The plate shrinks to the design as placed, but never past the target. It stays centered,
+    // so it keeps room on both sides for the design's offset.
+    const placedWidth = Math.min(areaWidth, Math.abs(designWidth * scaleX * Math.cos(angle)) + Math.abs(designHeight * scaleY * Math.sin(angle)) +
+        2 * Math.abs(dimensions.designOffsetXMm));
+    const placedLength = Math.min(areaLength, Math.abs(designWidth * scaleX * Math.sin(angle)) + Math.abs(designHeight * scaleY * Math.cos(angle)) +
+        2 * Math.abs(dimensions.designOffsetYMm));
+    return {
+        ...placed,
+        areaWidthMm: placedWidth,
+        areaLengthMm: placedLength,
+        widthMm: placedWidth + 2 * inset,
+        lengthMm: placedLength + 2 * inset,
+    };
+};
+
+/**
+ * Everything on the plate besides the relief: its rounded outline, the hanging
+ * hole, and the grip and label on the back
+ */
+const plateFeatures = (dimensions: ModelDimensions, widthMm: number, lengthMm: number, label?: BlockLabel) => {
+    const halfWidth = widthMm / 2;
+    const halfLength = lengthMm / 2;
+    let plate = roundedRectangle(-halfWidth, -halfLength, halfWidth, halfLength, dimensions.plateCornerRadiusMm);
+
+    const holeRadius = HANGING_HOLE_DIAMETER_MM / 2;
+    if (dimensions.hangingHole && halfLength > 2 * HANGING_HOLE_INSET_MM && halfWidth > HANGING_HOLE_INSET_MM) {
+        plate = subtractRegions([plate], [circle(0, halfLength - HANGING_HOLE_INSET_MM, holeRadius)])[0];
+    }
+
+    // The grip sits in the middle of the back; a ridge runs across the width
+    let handle: MultiPolygon = [];
+    let handleReach = 0;    // How far the grip extends from the center along Y
+    let handleHeight = 0;
+    if (dimensions.plateHandle === 'knob') {
+        handleReach = Math.min(KNOB_DIAMETER_MM / 2, Math.min(halfWidth, halfLength) / 2);
+        handle = [circle(0, 0, handleReach, 32)];
+        handleHeight = KNOB_HEIGHT_MM;
+    } else if (dimensions.plateHandle === 'ridge') {
+        handleReach = Math.min(RIDGE_WIDTH_MM, halfLength / 2) / 2;
+        const ridgeLength = widthMm * 0.6;
+        handle = [roundedRectangle(-ridgeLength / 2, -handleReach, ridgeLength / 2, handleReach, handleReach)];
+        handleHeight = RIDGE_HEIGHT_MM;
+    }
+
+    // The label goes below the grip, or in the middle of an empty back
+    let engraving: MultiPolygon = [];
+    if (dimensions.engraveLabel && label) {
+        const date = (label.date ?? new Date()).toISOString().slice(0, 10);
+        const lines = [
+            label.name,
+            ...(label.colorIndex !== undefined ? [`Color ${label.colorIndex}${label.colorCount ? ` of ${label.colorCount}` : ''}`] : []),
+            date,
+        ];
+        const inset = LABEL_INSET_MM + dimensions.plateCornerRadiusMm / 2;
+        const top = handle.length > 0 ? -handleReach - LABEL_INSET_MM : halfLength - inset - (dimensions.hangingHole ? HANGING_HOLE_INSET_MM + holeRadius : 0);
+        const box = new THREE.Box2(new THREE.Vector2(-halfWidth + inset, -halfLength + inset), new THREE.Vector2(halfWidth - inset, top));
+        if (!box.isEmpty()) engraving = labelRegion(lines, box);
+    }
+
+    return {
+        plate,
+        back: {
+            engraving,
+            engravingDepth: Math.min(LABEL_DEPTH_MM, dimensions.baseThicknessMm / 3),
+            handle: handle.length > 0 ? unionRegions(handle) : [],
+            handleHeight,
+        },
+    };
+};
+
+export interface DesignPlacement {
+    area: Polygon;                              // Where the ink may go; anything outside is cropped from the block
+    bounds: Polygon;                            // The SVG-space rectangle the design is fitted by, in model space
+    scale: number;                              // mm per SVG unit
+    widthMm: number;                            // Plate size
+    lengthMm: number;
+    toModel: (point: Pair) => THREE.Vector2;    // SVG space to model space
+    toSvg: (point: Pair) => Pair;               // And back
+}
+
+export interface DesignLayout extends DesignPlacement {
+    region: MultiPolygon;                       // All ink merged into one outline, in model space (mm)
+}
+
+/**
+ * The transform that puts the design's parsed paths on the block, without
+ * merging their ink: cheap enough to run for every edit
+ */
+export const placeDesign = (paths: ShapePath[], dimensions: ModelDimensions, frame?: THREE.Box2): DesignPlacement | null => {
     // Find bounding box of SVG to determine scale
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
 
-    paths.forEach(path => {
-        const shapes = SVGLoader.createShapes(path);
-        shapes.forEach(shape => {
-            const box = new THREE.Box2().setFromPoints(shape.getPoints());
-            minX = Math.min(minX, box.min.x);
-            minY = Math.min(minY, box.min.y);
-            maxX = Math.max(maxX, box.max.x);
-            maxY = Math.max(maxY, box.max.y);
+    if (frame) {
+        ({ x: minX, y: minY } = frame.min);
+        ({ x: maxX, y: maxY } = frame.max);
+    } else {
+        paths.forEach(path => {
+            const shapes = SVGLoader.createShapes(path);
+            shapes.forEach(shape => {
+                const box = new THREE.Box2().setFromPoints(shape.getPoints());
+                minX = Math.min(minX, box.min.x);
+                minY = Math.min(minY, box.min.y);
+                maxX = Math.max(maxX, box.max.x);
+                maxY = Math.max(maxY, box.max.y);
+            });
         });
-    });
+    }
 
     if (minX === Infinity) {
         console.warn('Could not determine bounding box for SVG shapes');
-        return group;
+        return null;
     }
 
     const svgWidth = maxX - minX;
@@ -63,65 +599,103 @@ export const create3DModel = (
     const centerX = minX + svgWidth / 2;
     const centerY = minY + svgHeight / 2;
 
-    // Calculate scale factor to fit SVG within target dimensions while preserving aspect ratio
-    // This ensures full fidelity - the SVG is scaled uniformly
-    const scaleX = targetWidthMm / svgWidth;
-    const scaleY = targetLengthMm / svgHeight;
-    const scaleFactor = Math.min(scaleX, scaleY); // Use smaller scale to fit within bounds
+    const plate = measurePlate(dimensions, svgWidth, svgHeight);
+    if (!plate) {
+        console.warn('SVG shapes have no width or height to fit');
+        return null;
+    }
+    const { scale, scaleX, scaleY, areaWidthMm, areaLengthMm, widthMm, lengthMm } = plate;
 
-    let totalTriangles = 0;
+    // SVG Y points down, so Y is always negated to make the block read like the drawing
+    // when seen from above. The design is then turned and moved as it should sit on the
+    // paper. Mirroring for printing comes last and negates X, because a block prints a
+    // mirror image of itself onto the paper.
+    const mirrorX = dimensions.mirrorForPrinting ? -1 : 1;
+    const angle = THREE.MathUtils.degToRad(dimensions.designRotationDeg);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const offsetX = dimensions.designOffsetXMm;
+    const offsetY = dimensions.designOffsetYMm;
+    const toModel = ([x, y]: Pair) => {
+        const u = (x - centerX) * scaleX;
+        const v = -(y - centerY) * scaleY;
+        return new THREE.Vector2((u * cos - v * sin + offsetX) * mirrorX, u * sin + v * cos + offsetY);
+    };
+    const toSvg = ([x, y]: Pair): Pair => {
+        const u = x * mirrorX - offsetX;
+        const v = y - offsetY;
+        return [(u * cos + v * sin) / scaleX + centerX, -(v * cos - u * sin) / scaleY + centerY];
+    };
 
-    // Extrude each path
-    paths.forEach((path) => {
-        // Filter out background paths (lighter colors)
-        // ImageTracer with 2 colors usually produces one dark and one light
-        const color = path.color;
-        const brightness = (color.r + color.g + color.b) / 3;
-        if (brightness > 0.5) return;
-
-        const shapes = SVGLoader.createShapes(path);
-        shapes.forEach((shape) => {
-            const geometry = new THREE.ExtrudeGeometry(shape, {
-                depth: extrusionDepth,
-                bevelEnabled: false,
-                curveSegments: curveSegments,  // Controls curve smoothness/triangle count
-                steps: 1  // Single step for extrusion depth
-            });
+    const area = rectangle(-areaWidthMm / 2, -areaLengthMm / 2, areaWidthMm / 2, areaLengthMm / 2);
+    const bounds: Polygon = [[[minX, minY], [maxX, minY], [maxX, maxY], [minX, maxY], [minX, minY]]
+        .map(pair => toModel(pair as Pair).toArray() as Pair)];
 
-            // Center the geometry first
-            geometry.translate(-centerX, -centerY, 0);
+    return { area, bounds, scale, widthMm, lengthMm, toModel, toSvg };
+};
 
-            // Scale to target dimensions (uniform scaling preserves fidelity)
-            geometry.scale(scaleFactor, scaleFactor, 1);
+/**
+ * Where the design lands on the block: its merged ink outline in model space and
+ * the transform that put it there. This is the geometry create3DModel extrudes,
+ * so anything measured on it holds for the printed block.
+ */
+export const layoutDesign = (svgString: string, dimensions: ModelDimensions, frame?: THREE.Box2): DesignLayout | null => {
+    const loader = new SVGLoader();
+    const svgData = loader.parse(svgString);
+    const paths = svgData.paths;
 
-            // Move extrusion UP to sit on top of the base plate
-            // Base goes from 0 to baseThickness, extrusion from baseThickness to baseThickness+extrusionDepth
-            geometry.translate(0, 0, baseThickness);
+    if (paths.length === 0) {
+        console.warn('No paths found in SVG string');
+        return null;
+    }
 
-            // Count triangles
-            const triangleCount = geometry.attributes.position.count / 3;
-            totalTriangles += triangleCount;
+    const placement = placeDesign(paths, dimensions, frame);
+    if (!placement) return null;
+    const region = inkRegion(paths, dimensions.curveSegments, pair => placement.toModel(pair).toArray() as Pair);
+    return { ...placement, region };
+};
 
-            const material = new THREE.MeshStandardMaterial({ color: 0x808080 }); // Grey
-            const mesh = new THREE.Mesh(geometry, material);
-            group.add(mesh);
-        });
-    });
+export const create3DModel = (
+    svgString: string,
+    dimensions: ModelDimensions = DEFAULT_MODEL_DIMENSIONS,
+    { frame, label }: ModelOptions = {}
+) => {
+    const group = new THREE.Group();
+    const layout = layoutDesign(svgString, dimensions, frame);
+    if (!layout) return group;
+
+    const extrusionDepth = dimensions.extrusionDepthMm;
+    const baseThickness = dimensions.baseThicknessMm;
+    // Whatever a fill, zoom or offset pushes past the design area is cropped
+    const modelRegion = layout.region.length > 0 ? intersectRegions(layout.region, [layout.area]) : layout.region;
 
-    // Add base plate sized to the target dimensions
-    // Base matches the specified dimensions exactly
-    const baseGeometry = new THREE.BoxGeometry(targetWidthMm, targetLengthMm, baseThickness);
-    const baseMaterial = new THREE.MeshStandardMaterial({ color: 0x000000 }); // Black
-    const baseMesh = new THREE.Mesh(baseGeometry, baseMaterial);
+    // The plate clips the relief to its own outline
+    const { plate, back } = plateFeatures(dimensions, layout.widthMm, layout.lengthMm, label);
+
+    // Base goes from 0 to baseThickness, relief from baseThickness to baseThickness+extrusionDepth.
+    // With a shoulder, the relief is stacked from bands that each step in a little; the top band
+    // is never offset, so the printing face keeps the design's exact outline.
+    const tapered = dimensions.shoulderAngleDeg > 0 || dimensions.shoulderFilletMm > 0;
+    const bandCount = tapered ? Math.min(MAX_SHOULDER_BANDS, Math.max(1, Math.ceil(extrusionDepth / SHOULDER_STEP_MM))) : 1;
+    const bandHeight = extrusionDepth / bandCount;
+    const bands: ReliefBand[] = Array.from({ length: bandCount }, (_, k) => {
+        const distance = shoulderOffset((k + 1) * bandHeight, extrusionDepth, dimensions.shoulderAngleDeg, dimensions.shoulderFilletMm);
+        return {
+            footprint: distance > 0 ? offsetRegion(modelRegion, distance) : modelRegion,
+            bottom: baseThickness + k * bandHeight,
+            top: baseThickness + (k + 1) * bandHeight,
+        };
+    });
+    const geometry = buildPlateGeometry(plate, bands, baseThickness, back);
 
-    // Position base so it goes from Z=0 to Z=baseThickness (bottom of model)
-    // Extrusion sits on top from Z=baseThickness to Z=baseThickness+extrusionDepth
-    baseMesh.position.z = baseThickness / 2;
-    group.add(baseMesh);
+    const materials = [
+        new THREE.MeshStandardMaterial({ name: 'Base', color: 0x000000 }),    // Black
+        new THREE.MeshStandardMaterial({ name: 'Relief', color: 0x808080 }),  // Grey
+    ];
+    group.add(new THREE.Mesh(geometry, materials));
 
     // Log triangle count for debugging
-    totalTriangles += 12; // Base box has 12 triangles (6 faces × 2 triangles)
-    console.log(`Model generated with approximately ${totalTriangles} triangles`);
+    console.log(`Model generated with ${geometry.attributes.position.count / 3} triangles`);
 
     // Rotate group to lay flat on XY plane (standard for 3D printing)
     group.rotation.x = -Math.PI / 2;
@@ -129,3 +703,37 @@ export const create3DModel = (
     return group;
 };
 
+/**
+ * Build a registration jig for multi-block prints: a plate with a raised L-shaped
+ * fence along two edges. Every block shares the same base outline, so pushing
+ * each one into the corner (and the paper against the same fence) lines the
+ * colors up.
+ */
+export const createRegistrationJig = (
+    dimensions: ModelDimensions,
+    designSize?: { width: number; height: number }  // SVG-space frame of the blocks, needed when plates fit the design
+) => {
+    const group = new THREE.Group();
+
+    const { widthMm, lengthMm } = (designSize && measurePlate(dimensions, designSize.width, designSize.height))
+        ?? { widthMm: dimensions.targetWidthMm, lengthMm: dimensions.targetLengthMm };
+    const pocketWidth = widthMm + JIG_CLEARANCE_MM;
+    const pocketLength = lengthMm + JIG_CLEARANCE_MM;
+    const halfWidth = (pocketWidth + JIG_FENCE_MM) / 2;
+    const halfLength = (pocketLength + JIG_FENCE_MM) / 2;
+
+    // Fences run along the -X and +Y edges; the pocket they enclose is centered like a block
+    const fence = unionRegions([
+        rectangle(-halfWidth, -halfLength, -halfWidth + JIG_FENCE_MM, halfLength),
+        rectangle(-halfWidth, halfLength - JIG_FENCE_MM, halfWidth, halfLength),
+    ]);
+    const geometry = buildPlateGeometry(
+        rectangle(-halfWidth, -halfLength, halfWidth, halfLength),
+        [{ footprint: fence, bottom: JIG_PLATE_MM, top: JIG_PLATE_MM + dimensions.baseThicknessMm }],
+        JIG_PLATE_MM
+    );
+    group.add(new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ name: 'Registration Jig', color: 0x990000 })));
+
+    group.rotation.x = -Math.PI / 2;
+    return group;
+};
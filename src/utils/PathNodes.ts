@@ -0,0 +1,436 @@
+import type { Point } from './SvgEditing';
+
+// Points taken along each segment to find where a click lands and how far a simplified segment strays
+const SEGMENT_SAMPLES = 16;
+
+/**
+ * An anchor with its control points. A segment is a cubic curve when either
+ * end has a control point on its side, and a straight line otherwise.
+ */
+export interface PathNode {
+    point: Point;
+    in: Point | null;           // Controls the segment arriving at the anchor
+    out: Point | null;          // Controls the segment leaving it
+}
+
+export interface Subpath {
+    nodes: PathNode[];
+    closed: boolean;            // Closed subpaths also have a segment from the last node back to the first
+}
+
+export interface NodeRef {
+    subpath: number;
+    node: number;
+}
+
+type Cubic = [Point, Point, Point, Point];
+
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y });
+const subtract = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const scale = (a: Point, factor: number): Point => ({ x: a.x * factor, y: a.y * factor });
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const samePoint = (a: Point, b: Point) => distance(a, b) < 1e-6;
+
+const unit = (a: Point): Point => {
+    const length = Math.hypot(a.x, a.y);
+    return length > 0 ? scale(a, 1 / length) : { x: 0, y: 0 };
+};
+
+/**
+ * Cubic pieces of an elliptical arc, following the endpoint-to-center
+ * conversion in the SVG spec
+ */
+const arcToCubics = (from: Point, rx: number, ry: number, rotationDeg: number, largeArc: boolean, sweep: boolean, to: Point): Cubic[] => {
+    if (samePoint(from, to)) return [];
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    if (rx === 0 || ry === 0) return [[from, from, to, to]];
+
+    const phi = rotationDeg * Math.PI / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const dx = (from.x - to.x) / 2;
+    const dy = (from.y - to.y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+
+    // Radii too small to reach the end point are scaled up until they do
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / (rx * rx * y1 * y1 + ry * ry * x1 * x1)));
+    const cx1 = factor * rx * y1 / ry;
+    const cy1 = -factor * ry * x1 / rx;
+    const center = {
+        x: cos * cx1 - sin * cy1 + (from.x + to.x) / 2,
+        y: sin * cx1 + cos * cy1 + (from.y + to.y) / 2,
+    };
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+    let sweepAngle = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+    if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI;
+    if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI;
+
+    // At most a quarter turn per piece keeps each one close to the arc
+    const pieces = Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2));
+    const step = sweepAngle / pieces;
+    const handle = (4 / 3) * Math.tan(step / 4);
+    const pointAt = (theta: number, offset = 0): Point => {
+        const x = rx * (Math.cos(theta) - offset * Math.sin(theta));
+        const y = ry * (Math.sin(theta) + offset * Math.cos(theta));
+        return { x: center.x + cos * x - sin * y, y: center.y + sin * x + cos * y };
+    };
+
+    return Array.from({ length: pieces }, (_, i) => {
+        const a = start + i * step;
+        const b = a + step;
+        return [pointAt(a), pointAt(a, handle), pointAt(b, -handle), i === pieces - 1 ? to : pointAt(b)];
+    });
+};
+
+/**
+ * Read path data into subpaths of nodes. Every command, relative or absolute,
+ * ends up as anchors joined by lines and cubic curves.
+ */
+export const parsePathData = (d: string): Subpath[] => {
+    const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) ?? [];
+    const subpaths: Subpath[] = [];
+    let current: Subpath | null = null;
+    let point: Point = { x: 0, y: 0 };
+    let start: Point = point;
+    let lastControl: Point | null = null;       // For the reflected control point of S and T
+    let lastCommand = '';
+    let i = 0;
+
+    const number = () => Number(tokens[i++]);
+    const coordinate = (relative: boolean): Point => {
+        const x = number();
+        const y = number();
+        return relative ? { x: point.x + x, y: point.y + y } : { x, y };
+    };
+    const lastNode = () => current!.nodes[current!.nodes.length - 1];
+    const ensureSubpath = () => {
+        if (!current) {
+            current = { nodes: [{ point, in: null, out: null }], closed: false };
+            subpaths.push(current);
+        }
+    };
+    const lineTo = (to: Point) => {
+        ensureSubpath();
+        current!.nodes.push({ point: to, in: null, out: null });
+        point = to;
+    };
+    const curveTo = (c1: Point, c2: Point, to: Point) => {
+        ensureSubpath();
+        lastNode().out = c1;
+        current!.nodes.push({ point: to, in: c2, out: null });
+        point = to;
+    };
+
+    let command = '';
+    while (i < tokens.length) {
+        if (/[a-zA-Z]/.test(tokens[i])) command = tokens[i++];
+        else if (!command) break;
+        const relative = command === command.toLowerCase();
+        const type = command.toUpperCase();
+
+        if (type === 'M') {
+            point = coordinate(relative);
+            start = point;
+            current = { nodes: [{ point, in: null, out: null }], closed: false };
+            subpaths.push(current);
+            // Further pairs after a moveto are lines
+            command = relative ? 'l' : 'L';
+            lastControl = null;
+            lastCommand = 'M';
+            continue;
+        }
+        if (type === 'Z') {
+            if (current) {
+                const subpath: Subpath = current;
+                subpath.closed = true;
+                // An explicit segment back to the start leaves a node on top of the first one
+                const last = lastNode();
+                if (subpath.nodes.length > 1 && samePoint(last.point, subpath.nodes[0].point)) {
+                    subpath.nodes[0].in = last.in;
+                    subpath.nodes.pop();
+                }
+            }
+            current = null;
+            point = start;
+            lastControl = null;
+            lastCommand = 'Z';
+            command = '';
+            continue;
+        }
+
+        if (type === 'L') {
+            lineTo(coordinate(relative));
+        } else if (type === 'H') {
+            const x = number();
+            lineTo({ x: relative ? point.x + x : x, y: point.y });
+        } else if (type === 'V') {
+            const y = number();
+            lineTo({ x: point.x, y: relative ? point.y + y : y });
+        } else if (type === 'C' || type === 'S') {
+            const c1 = type === 'C'
+                ? coordinate(relative)
+                : lastControl && (lastCommand === 'C' || lastCommand === 'S') ? subtract(scale(point, 2), lastControl) : point;
+            const c2 = coordinate(relative);
+            const to = coordinate(relative);
+            curveTo(c1, c2, to);
+            lastControl = c2;
+        } else if (type === 'Q' || type === 'T') {
+            const from = point;
+            const control: Point = type === 'Q'
+                ? coordinate(relative)
+                : lastControl && (lastCommand === 'Q' || lastCommand === 'T') ? subtract(scale(from, 2), lastControl) : from;
+            const to = coordinate(relative);
+            // A quadratic curve is the cubic with its control points two thirds of the way to the quadratic one
+            curveTo(lerp(from, control, 2 / 3), lerp(to, control, 2 / 3), to);
+            lastControl = control;
+        } else if (type === 'A') {
+            const rx = number();
+            const ry = number();
+            const rotation = number();
+            const largeArc = number() !== 0;
+            const sweep = number() !== 0;
+            const to = coordinate(relative);
+            const cubics = arcToCubics(point, rx, ry, rotation, largeArc, sweep, to);
+            cubics.forEach(([, c1, c2, end]) => curveTo(c1, c2, end));
+            point = to;
+            lastControl = null;
+        } else {
+            break;
+        }
+        if (type !== 'C' && type !== 'S' && type !== 'Q' && type !== 'T') lastControl = null;
+        lastCommand = type;
+    }
+
+    return subpaths;
+};
+
+const cubicOf = (from: PathNode, to: PathNode): Cubic => [from.point, from.out ?? from.point, to.in ?? to.point, to.point];
+
+const isCurve = (from: PathNode, to: PathNode) => from.out !== null || to.in !== null;
+
+const cubicAt = ([p0, c1, c2, p3]: Cubic, t: number): Point => {
+    const a = lerp(p0, c1, t);
+    const b = lerp(c1, c2, t);
+    const c = lerp(c2, p3, t);
+    return lerp(lerp(a, b, t), lerp(b, c, t), t);
+};
+
+// Pairs of node indices joined by a segment, including the closing one
+const segmentsOf = (subpath: Subpath) => {
+    const count = subpath.nodes.length;
+    const pairs: [number, number][] = [];
+    for (let i = 0; i < count - 1; i++) pairs.push([i, i + 1]);
+    if (subpath.closed && count > 1) pairs.push([count - 1, 0]);
+    return pairs;
+};
+
+/**
+ * Path data for the subpaths, using lines where a segment has no control points
+ */
+export const formatPathData = (subpaths: Subpath[]) => {
+    const format = (p: Point) => `${+p.x.toFixed(3)} ${+p.y.toFixed(3)}`;
+    return subpaths.filter(subpath => subpath.nodes.length > 0).map(subpath => {
+        const { nodes } = subpath;
+        const parts = [`M ${format(nodes[0].point)}`];
+        segmentsOf(subpath).forEach(([from, to]) => {
+            const a = nodes[from];
+            const b = nodes[to];
+            if (isCurve(a, b)) parts.push(`C ${format(a.out ?? a.point)} ${format(b.in ?? b.point)} ${format(b.point)}`);
+            else if (to !== 0) parts.push(`L ${format(b.point)}`);
+        });
+        if (subpath.closed) parts.push('Z');
+        return parts.join(' ');
+    }).join(' ');
+};
+
+export const nodeCount = (subpaths: Subpath[]) => subpaths.reduce((sum, subpath) => sum + subpath.nodes.length, 0);
+
+const updateNode = (subpaths: Subpath[], ref: NodeRef, update: (node: PathNode) => PathNode) =>
+    subpaths.map((subpath, s) => s !== ref.subpath ? subpath : {
+        ...subpath,
+        nodes: subpath.nodes.map((node, n) => n === ref.node ? update(node) : node),
+    });
+
+/**
+ * Move an anchor, taking its control points along
+ */
+export const moveNode = (subpaths: Subpath[], ref: NodeRef, offset: Point) => updateNode(subpaths, ref, node => ({
+    point: add(node.point, offset),
+    in: node.in && add(node.in, offset),
+    out: node.out && add(node.out, offset),
+}));
+
+/**
+ * Move one control point. On a smooth node the other one turns with it and
+ * keeps its length, so the curve stays smooth through the anchor.
+ */
+export const moveHandle = (subpaths: Subpath[], ref: NodeRef, side: 'in' | 'out', to: Point) => updateNode(subpaths, ref, node => {
+    const other = side === 'in' ? node.out : node.in;
+    const moved = node[side];
+    const wasSmooth = other && moved && Math.abs(cross(unit(subtract(moved, node.point)), unit(subtract(other, node.point)))) < 1e-3;
+    const turned = other && wasSmooth
+        ? subtract(node.point, scale(unit(subtract(to, node.point)), distance(other, node.point)))
+        : other;
+    return side === 'in' ? { ...node, in: to, out: turned } : { ...node, out: to, in: turned };
+});
+
+/**
+ * Control points in line through the anchor, a third of the way to each
+ * neighbour, so the outline runs through it without a kink
+ */
+export const smoothNode = (subpaths: Subpath[], ref: NodeRef) => {
+    const { nodes, closed } = subpaths[ref.subpath];
+    const count = nodes.length;
+    const previous = ref.node > 0 || closed ? nodes[(ref.node - 1 + count) % count] : null;
+    const next = ref.node < count - 1 || closed ? nodes[(ref.node + 1) % count] : null;
+    return updateNode(subpaths, ref, node => {
+        const direction = unit(subtract(next?.point ?? node.point, previous?.point ?? node.point));
+        return {
+            point: node.point,
+            in: previous && subtract(node.point, scale(direction, distance(node.point, previous.point) / 3)),
+            out: next && add(node.point, scale(direction, distance(node.point, next.point) / 3)),
+        };
+    });
+};
+
+/**
+ * Drop an anchor's control points, leaving a sharp corner
+ */
+export const cornerNode = (subpaths: Subpath[], ref: NodeRef) => updateNode(subpaths, ref, node => ({ point: node.point, in: null, out: null }));
+
+/**
+ * Remove an anchor, joining its neighbours directly. A subpath left with too
+ * few anchors to draw anything goes too.
+ */
+export const deleteNode = (subpaths: Subpath[], ref: NodeRef) => subpaths
+    .map((subpath, s) => s !== ref.subpath ? subpath : { ...subpath, nodes: subpath.nodes.filter((_, n) => n !== ref.node) })
+    .filter(subpath => subpath.nodes.length >= (subpath.closed ? 3 : 2));
+
+/**
+ * Split the segment nearest to `near` at the closest point on it. Curves are
+ * split exactly, so the outline keeps its shape.
+ */
+export const insertNode = (subpaths: Subpath[], near: Point): { subpaths: Subpath[]; ref: NodeRef } | null => {
+    let best: { subpath: number; from: number; to: number; t: number; distance: number } | null = null;
+    subpaths.forEach((subpath, s) => segmentsOf(subpath).forEach(([from, to]) => {
+        const cubic = cubicOf(subpath.nodes[from], subpath.nodes[to]);
+        for (let k = 1; k < SEGMENT_SAMPLES; k++) {
+            const t = k / SEGMENT_SAMPLES;
+            const gap = distance(cubicAt(cubic, t), near);
+            if (!best || gap < best.distance) best = { subpath: s, from, to, t, distance: gap };
+        }
+    }));
+    if (!best) return null;
+
+    const { subpath: s, from, to, t } = best;
+    const nodes = [...subpaths[s].nodes];
+    const a = nodes[from];
+    const b = nodes[to];
+    let inserted: PathNode;
+    if (isCurve(a, b)) {
+        // de Casteljau: the control polygon split at t gives both halves
+        const [p0, c1, c2, p3] = cubicOf(a, b);
+        const ab = lerp(p0, c1, t);
+        const bc = lerp(c1, c2, t);
+        const cd = lerp(c2, p3, t);
+        const abc = lerp(ab, bc, t);
+        const bcd = lerp(bc, cd, t);
+        nodes[from] = { ...a, out: ab };
+        nodes[to] = { ...b, in: cd };
+        inserted = { point: lerp(abc, bcd, t), in: abc, out: bcd };
+    } else {
+        inserted = { point: lerp(a.point, b.point, t), in: null, out: null };
+    }
+    const index = from + 1;
+    nodes.splice(index, 0, inserted);
+    return {
+        subpaths: subpaths.map((subpath, i) => (i === s ? { ...subpath, nodes } : subpath)),
+        ref: { subpath: s, node: index },
+    };
+};
+
+const distanceToPolyline = (point: Point, polyline: Point[]) => {
+    let best = Infinity;
+    for (let i = 1; i < polyline.length; i++) {
+        const a = polyline[i - 1];
+        const ab = subtract(polyline[i], a);
+        const lengthSquared = ab.x * ab.x + ab.y * ab.y;
+        const t = lengthSquared > 0 ? Math.min(1, Math.max(0, ((point.x - a.x) * ab.x + (point.y - a.y) * ab.y) / lengthSquared)) : 0;
+        best = Math.min(best, distance(point, add(a, scale(ab, t))));
+    }
+    return best;
+};
+
+/**
+ * Remove anchors while the outline stays within `tolerance` of where it was.
+ * The anchor whose removal changes the least goes first; each merged segment
+ * keeps the directions its ends left in and is checked against every point of
+ * the original outline it now stands in for.
+ */
+const simplifySubpath = (subpath: Subpath, tolerance: number): Subpath => {
+    const nodes = subpath.nodes.map(node => ({ ...node }));
+    const minimum = subpath.closed ? 3 : 2;
+    // Points of the original outline along each current segment, ends excluded
+    const samples = segmentsOf(subpath).map(([from, to]) => {
+        const cubic = cubicOf(nodes[from], nodes[to]);
+        return Array.from({ length: SEGMENT_SAMPLES - 1 }, (_, k) => cubicAt(cubic, (k + 1) / SEGMENT_SAMPLES));
+    });
+
+    const removable = (index: number) => subpath.closed || (index > 0 && index < nodes.length - 1);
+
+    // The segment that would replace the two on either side of an anchor, and how far the outline moves
+    const merge = (index: number) => {
+        const count = nodes.length;
+        const previousIndex = (index - 1 + count) % count;
+        const previous = nodes[previousIndex];
+        const next = nodes[(index + 1) % count];
+        const chord = distance(previous.point, next.point);
+        const curved = isCurve(previous, nodes[index]) || isCurve(nodes[index], next);
+        const out = curved ? add(previous.point, scale(unit(subtract(previous.out ?? nodes[index].point, previous.point)), chord / 3)) : null;
+        const into = curved ? add(next.point, scale(unit(subtract(next.in ?? nodes[index].point, next.point)), chord / 3)) : null;
+        const cubic: Cubic = [previous.point, out ?? previous.point, into ?? next.point, next.point];
+        const polyline = Array.from({ length: SEGMENT_SAMPLES + 1 }, (_, k) => cubicAt(cubic, k / SEGMENT_SAMPLES));
+        const covered = [...samples[previousIndex], nodes[index].point, ...samples[index]];
+        const error = Math.max(...covered.map(point => distanceToPolyline(point, polyline)));
+        return { previousIndex, out, into, covered, error };
+    };
+
+    const errors = nodes.map((_, index) => (removable(index) ? merge(index).error : Infinity));
+    while (nodes.length > minimum) {
+        let index = -1;
+        errors.forEach((error, i) => {
+            if (error <= tolerance && (index === -1 || error < errors[index])) index = i;
+        });
+        if (index === -1) break;
+
+        const { previousIndex, out, into, covered } = merge(index);
+        const nextIndex = (index + 1) % nodes.length;
+        nodes[previousIndex].out = out;
+        nodes[nextIndex].in = into;
+        samples[previousIndex] = covered;
+        samples.splice(index, 1);
+        nodes.splice(index, 1);
+        errors.splice(index, 1);
+
+        // Only the anchors either side of the removed one have new segments to measure
+        [(index - 1 + nodes.length) % nodes.length, index % nodes.length].forEach(neighbour => {
+            errors[neighbour] = removable(neighbour) && nodes.length > minimum ? merge(neighbour).error : Infinity;
+        });
+    }
+
+    return { nodes, closed: subpath.closed };
+};
+
+export const simplifyPath = (subpaths: Subpath[], tolerance: number) => subpaths.map(subpath => simplifySubpath(subpath, tolerance));
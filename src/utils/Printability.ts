@@ -0,0 +1,136 @@
+import * as THREE from 'three';
+import { layoutDesign } from './ModelGenerator';
+import type { DesignLayout, ModelDimensions } from './ModelGenerator';
+import { applyDesignRegion } from './Brush';
+import { offsetRegion, subtractRegions } from './Regions';
+import type { MultiPolygon, Polygon } from './Regions';
+
+// Pieces smaller than this fraction of a minimum-width square are rounding noise, not features
+const NOISE_FRACTION = 0.25;
+// Curves are followed at least this closely, so fixes drawn over the design hug its real outlines
+const MIN_CURVE_SEGMENTS = 12;
+// Highlights float this far (mm) above the surface they mark so they don't z-fight with it
+const HIGHLIGHT_LIFT_MM = 0.05;
+
+export type PrintabilityFix = 'thicken' | 'remove' | 'close';
+
+export interface PrintabilityReport {
+    minWidthMm: number;
+    thinInk: MultiPolygon;      // Ink narrower than the minimum width, in model space (mm)
+    narrowGaps: MultiPolygon;   // Gaps between ink narrower than the minimum width, in model space (mm)
+    layout: DesignLayout;
+}
+
+const area = (polygon: Polygon) =>
+    polygon.reduce((sum, ring, i) => {
+        let twice = 0;
+        for (let k = 0; k + 1 < ring.length; k++) {
+            twice += ring[k][0] * ring[k + 1][1] - ring[k + 1][0] * ring[k][1];
+        }
+        // Holes take away from the outline
+        return sum + (i === 0 ? 1 : -1) * Math.abs(twice / 2);
+    }, 0);
+
+const withoutNoise = (region: MultiPolygon, minWidthMm: number) =>
+    region.filter(polygon => area(polygon) > NOISE_FRACTION * minWidthMm * minWidthMm);
+
+/**
+ * SVG path data for a model-space region, mapped back into the design's coordinates
+ */
+const toPathData = (region: MultiPolygon, layout: DesignLayout) => region
+    .flatMap(polygon => polygon.map(ring =>
+        `M${ring.slice(0, -1).map(point => layout.toSvg(point).map(v => +v.toFixed(3)).join(' ')).join('L')}Z`))
+    .join('');
+
+/**
+ * Find where the block will lose detail at the scale it is actually printed.
+ * Ink that survives shrinking by half the minimum width and growing back is wide
+ * enough to print; whatever the round trip removes is too thin. Gaps are found
+ * the same way with the steps reversed: what growing and shrinking fills in was
+ * too narrow to stay open.
+ */
+export const analyzePrintability = (
+    svgString: string,
+    dimensions: ModelDimensions,
+    minWidthMm: number,
+    frame?: THREE.Box2
+): PrintabilityReport | null => {
+    const curveSegments = Math.max(dimensions.curveSegments, MIN_CURVE_SEGMENTS);
+    const layout = layoutDesign(svgString, { ...dimensions, curveSegments }, frame);
+    if (!layout || layout.region.length === 0) return null;
+
+    const { region } = layout;
+    const half = minWidthMm / 2;
+    const opened = offsetRegion(offsetRegion(region, -half), half);
+    const closed = offsetRegion(offsetRegion(region, half), -half);
+
+    return {
+        minWidthMm,
+        thinInk: withoutNoise(opened.length > 0 ? subtractRegions(region, opened) : region, minWidthMm),
+        narrowGaps: withoutNoise(subtractRegions(closed, region), minWidthMm),
+        layout,
+    };
+};
+
+/**
+ * The design with one kind of problem fixed. The fix is merged into the
+ * shapes it touches, so the design keeps its own shapes, text and structure.
+ */
+export const applyPrintabilityFix = (svgString: string, report: PrintabilityReport, fix: PrintabilityFix) => {
+    if (fix === 'thicken' && report.thinInk.length > 0) {
+        // Growing each thin piece by half the minimum width on every side makes it at least that wide
+        return applyDesignRegion(svgString, offsetRegion(report.thinInk, report.minWidthMm / 2), report.layout, 'paint');
+    } else if (fix === 'remove' && report.thinInk.length > 0) {
+        return applyDesignRegion(svgString, report.thinInk, report.layout, 'cut');
+    } else if (fix === 'close' && report.narrowGaps.length > 0) {
+        return applyDesignRegion(svgString, report.narrowGaps, report.layout, 'paint');
+    }
+    return svgString;
+};
+
+/**
+ * An SVG with the same viewport as the design that only draws the problem
+ * areas, to lay over the design preview
+ */
+export const printabilityOverlaySvg = (svgString: string, report: PrintabilityReport) => {
+    const doc = new DOMParser().parseFromString(svgString, 'image/svg+xml');
+    const source = doc.documentElement;
+    const attributes = ['viewBox', 'width', 'height', 'preserveAspectRatio']
+        .map(name => source.getAttribute(name) !== null ? ` ${name}="${source.getAttribute(name)}"` : '')
+        .join('');
+
+    // Strokes keep hairline problems visible at any zoom
+    return `<svg xmlns="http://www.w3.org/2000/svg"${attributes}>` +
+        `<path d="${toPathData(report.narrowGaps, report.layout)}" fill="#3b82f6" fill-opacity="0.6" stroke="#3b82f6" stroke-width="2" vector-effect="non-scaling-stroke" fill-rule="evenodd" />` +
+        `<path d="${toPathData(report.thinInk, report.layout)}" fill="#ef4444" fill-opacity="0.7" stroke="#ef4444" stroke-width="2" vector-effect="non-scaling-stroke" fill-rule="evenodd" />` +
+        '</svg>';
+};
+
+/**
+ * Flat markers for the 3D preview, in the same frame as the block from
+ * create3DModel: thin ink on the printing face, narrow gaps on the plate
+ */
+export const printabilityOverlay3D = (report: PrintabilityReport, dimensions: ModelDimensions) => {
+    const group = new THREE.Group();
+    const plateTop = dimensions.baseThicknessMm;
+    const reliefTop = plateTop + dimensions.extrusionDepthMm;
+
+    const addRegion = (region: MultiPolygon, color: number, z: number) => {
+        region.forEach(polygon => {
+            const [outer, ...holes] = polygon.map(ring => ring.slice(0, -1).map(([x, y]) => new THREE.Vector2(x, y)));
+            const shape = new THREE.Shape(outer);
+            shape.holes = holes.map(hole => new THREE.Path(hole));
+            const mesh = new THREE.Mesh(
+                new THREE.ShapeGeometry(shape),
+                new THREE.MeshBasicMaterial({ color, side: THREE.DoubleSide, transparent: true, opacity: 0.85, depthWrite: false })
+            );
+            mesh.position.z = z + HIGHLIGHT_LIFT_MM;
+            group.add(mesh);
+        });
+    };
+    addRegion(report.narrowGaps, 0x3b82f6, plateTop);
+    addRegion(report.thinInk, 0xef4444, reliefTop);
+
+    group.rotation.x = -Math.PI / 2;
+    return group;
+};
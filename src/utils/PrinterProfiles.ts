@@ -0,0 +1,243 @@
+export type FirmwareFlavor = 'marlin' | 'klipper' | 'reprap';
+
+// Where X0 Y0 sits on the bed: a front-left corner (most bed slingers) or the bed center (deltas)
+export type BedOrigin = 'corner' | 'center';
+
+export interface PrinterProfile {
+    id: string;
+    name: string;
+    flavor: FirmwareFlavor;
+    nozzleTemp: number;         // °C
+    bedTemp: number;            // °C
+    bedWidth: number;           // X size in mm
+    bedDepth: number;           // Y size in mm
+    origin: BedOrigin;
+    nozzleDiameter: number;     // mm
+    filamentDiameter: number;   // mm
+    relativeExtrusion: boolean; // M83 instead of M82
+    printSpeed: number;         // mm/s
+    travelSpeed: number;        // mm/s
+    retractionLength: number;   // mm of filament
+    retractionSpeed: number;    // mm/s
+    zHop: number;               // mm the nozzle lifts on retracted travel, 0 to disable
+    startGCode: string;         // Template, see renderTemplate for placeholders
+    endGCode: string;
+}
+
+// Settings the extrusion and feed math divides by or scales with, so 0 can't work
+const POSITIVE_FIELDS: { key: keyof PrinterProfile; name: string }[] = [
+    { key: 'bedWidth', name: 'Bed X' },
+    { key: 'bedDepth', name: 'Bed Y' },
+    { key: 'nozzleDiameter', name: 'Nozzle diameter' },
+    { key: 'filamentDiameter', name: 'Filament diameter' },
+    { key: 'printSpeed', name: 'Print speed' },
+    { key: 'travelSpeed', name: 'Travel speed' },
+    { key: 'retractionSpeed', name: 'Retraction speed' },
+];
+
+const STORAGE_KEY = 'linolium3d.printerProfiles';
+const SELECTED_KEY = 'linolium3d.selectedPrinterProfile';
+
+const MARLIN_START = `M140 S{bed_temp} ; start heating bed
+M104 S{nozzle_temp} ; start heating nozzle
+G28 ; home all axes
+M190 S{bed_temp} ; wait for bed
+M109 S{nozzle_temp} ; wait for nozzle
+G1 Z5 F3000 ; lift nozzle`;
+
+const MARLIN_END = `G91 ; relative positioning
+G1 Z10 F3000 ; raise nozzle
+G90 ; absolute positioning
+G1 X0 Y{bed_depth} F3000 ; present print
+M104 S0 ; turn off nozzle
+M140 S0 ; turn off bed
+M107 ; turn off fan
+M84 ; disable motors`;
+
+const KLIPPER_START = `PRINT_START BED_TEMP={bed_temp} EXTRUDER_TEMP={nozzle_temp}`;
+
+const KLIPPER_END = `PRINT_END`;
+
+const REPRAP_START = `M140 S{bed_temp} ; start heating bed
+M104 S{nozzle_temp} ; start heating nozzle
+G28 ; home all axes
+M190 S{bed_temp} ; wait for bed
+M109 S{nozzle_temp} ; wait for nozzle
+G1 Z5 F3000 ; lift nozzle`;
+
+const REPRAP_END = `G91 ; relative positioning
+G1 Z10 F3000 ; raise nozzle
+G90 ; absolute positioning
+M104 S0 ; turn off nozzle
+M140 S0 ; turn off bed
+M107 ; turn off fan
+M0 H1 ; stop, keep motors energised`;
+
+export const DEFAULT_TEMPLATES: Record<FirmwareFlavor, { start: string; end: string }> = {
+    marlin: { start: MARLIN_START, end: MARLIN_END },
+    klipper: { start: KLIPPER_START, end: KLIPPER_END },
+    reprap: { start: REPRAP_START, end: REPRAP_END },
+};
+
+export const BUILT_IN_PROFILES: PrinterProfile[] = [
+    {
+        id: 'ender3',
+        name: 'Creality Ender 3 (Marlin)',
+        flavor: 'marlin',
+        nozzleTemp: 205,
+        bedTemp: 60,
+        bedWidth: 220,
+        bedDepth: 220,
+        origin: 'corner',
+        nozzleDiameter: 0.4,
+        filamentDiameter: 1.75,
+        relativeExtrusion: false,
+        printSpeed: 50,
+        travelSpeed: 150,
+        retractionLength: 5,
+        retractionSpeed: 45,
+        zHop: 0,
+        startGCode: MARLIN_START,
+        endGCode: MARLIN_END,
+    },
+    {
+        id: 'prusa-mk3s',
+        name: 'Prusa i3 MK3S (Marlin)',
+        flavor: 'marlin',
+        nozzleTemp: 215,
+        bedTemp: 60,
+        bedWidth: 250,
+        bedDepth: 210,
+        origin: 'corner',
+        nozzleDiameter: 0.4,
+        filamentDiameter: 1.75,
+        relativeExtrusion: true,
+        printSpeed: 60,
+        travelSpeed: 180,
+        retractionLength: 0.8,
+        retractionSpeed: 35,
+        zHop: 0.2,
+        startGCode: MARLIN_START,
+        endGCode: MARLIN_END,
+    },
+    {
+        id: 'voron-klipper',
+        name: 'Voron 2.4 (Klipper)',
+        flavor: 'klipper',
+        nozzleTemp: 215,
+        bedTemp: 60,
+        bedWidth: 300,
+        bedDepth: 300,
+        origin: 'corner',
+        nozzleDiameter: 0.4,
+        filamentDiameter: 1.75,
+        relativeExtrusion: true,
+        printSpeed: 100,
+        travelSpeed: 250,
+        retractionLength: 0.5,
+        retractionSpeed: 40,
+        zHop: 0.4,
+        startGCode: KLIPPER_START,
+        endGCode: KLIPPER_END,
+    },
+    {
+        id: 'duet-rrf',
+        name: 'Duet Delta (RepRapFirmware)',
+        flavor: 'reprap',
+        nozzleTemp: 210,
+        bedTemp: 60,
+        bedWidth: 250,
+        bedDepth: 250,
+        origin: 'center',
+        nozzleDiameter: 0.4,
+        filamentDiameter: 1.75,
+        relativeExtrusion: true,
+        printSpeed: 60,
+        travelSpeed: 200,
+        retractionLength: 4,
+        retractionSpeed: 60,
+        zHop: 0.2,
+        startGCode: REPRAP_START,
+        endGCode: REPRAP_END,
+    },
+];
+
+/**
+ * Why this profile can't drive a print, or null if it can
+ */
+export const profileProblem = (profile: PrinterProfile) => {
+    const field = POSITIVE_FIELDS.find(({ key }) => !((profile[key] as number) > 0));
+    return field ? `${field.name} must be greater than 0.` : null;
+};
+
+export const isBuiltInProfile = (id: string) => BUILT_IN_PROFILES.some(profile => profile.id === id);
+
+/**
+ * Fill `{placeholder}` fields in a start/end G-code template from the profile.
+ * Unknown placeholders are left untouched so firmware macros using braces survive.
+ */
+export const renderTemplate = (template: string, profile: PrinterProfile) => {
+    const values: Record<string, string | number> = {
+        nozzle_temp: profile.nozzleTemp,
+        bed_temp: profile.bedTemp,
+        bed_width: profile.bedWidth,
+        bed_depth: profile.bedDepth,
+        print_speed: profile.printSpeed,
+        travel_speed: profile.travelSpeed,
+        profile_name: profile.name,
+    };
+    return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+        key in values ? String(values[key]) : match
+    );
+};
+
+/**
+ * Load the saved profile list, falling back to the built-in presets.
+ * Saved profiles are merged over the presets field by field so profiles saved
+ * by an older version still pick up fields added since, and presets added
+ * since the last save are appended.
+ */
+export const loadProfiles = (): PrinterProfile[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return BUILT_IN_PROFILES;
+        const saved = JSON.parse(raw) as Partial<PrinterProfile>[];
+        const fallback = BUILT_IN_PROFILES[0];
+        const profiles = saved
+            .filter(profile => typeof profile.id === 'string')
+            .map(profile => ({
+                ...(BUILT_IN_PROFILES.find(p => p.id === profile.id) ?? fallback),
+                ...profile,
+            }) as PrinterProfile);
+        const missing = BUILT_IN_PROFILES.filter(preset => !profiles.some(p => p.id === preset.id));
+        return [...profiles, ...missing];
+    } catch (error) {
+        console.warn('[PrinterProfiles] Could not read saved profiles:', error);
+        return BUILT_IN_PROFILES;
+    }
+};
+
+export const saveProfiles = (profiles: PrinterProfile[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    } catch (error) {
+        console.warn('[PrinterProfiles] Could not save profiles:', error);
+    }
+};
+
+export const loadSelectedProfileId = () => {
+    try {
+        return localStorage.getItem(SELECTED_KEY) ?? BUILT_IN_PROFILES[0].id;
+    } catch (error) {
+        console.warn('[PrinterProfiles] Could not read the selected profile:', error);
+        return BUILT_IN_PROFILES[0].id;
+    }
+};
+
+export const saveSelectedProfileId = (id: string) => {
+    try {
+        localStorage.setItem(SELECTED_KEY, id);
+    } catch (error) {
+        console.warn('[PrinterProfiles] Could not save the selected profile:', error);
+    }
+};
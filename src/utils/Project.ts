@@ -0,0 +1,193 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'three/examples/jsm/libs/fflate.module.js';
+import { DEFAULT_IMAGE_ADJUSTMENTS } from './ImageAdjustments';
+import type { ImageAdjustments } from './ImageAdjustments';
+import { DEFAULT_VECTORIZATION_OPTIONS } from './ImageProcessor';
+import type { VectorizationOptions, VectorizerChoice } from './ImageProcessor';
+import { DEFAULT_MODEL_DIMENSIONS } from './ModelGenerator';
+import type { ModelDimensions } from './ModelGenerator';
+import { EMPTY_HISTORY } from './EditHistory';
+import type { EditCommand, EditHistory } from './EditHistory';
+import { INCH_TO_MM } from './Units';
+
+export const PROJECT_EXTENSION = '.linolium';
+
+const PROJECT_VERSION = 3;
+const MANIFEST_NAME = 'project.json';
+const SOURCE_FOLDER = 'source/';
+
+const DATABASE_NAME = 'linolium3d';
+const AUTOSAVE_STORE = 'autosave';
+const AUTOSAVE_KEY = 'session';
+
+/**
+ * Everything needed to pick a design back up where it was left: the source
+ * image and how it was prepared, the vectorizer settings, the block's
+ * dimensions and the edited SVG with its undo history
+ */
+export interface Project {
+    sourceImage: File | null;
+    imageAdjustments: ImageAdjustments;
+    vectorOptions: VectorizationOptions;
+    vectorizer: VectorizerChoice;
+    dimensions: ModelDimensions;
+    svgString: string | null;
+    history: EditHistory;
+}
+
+export interface AutosavedProject {
+    project: Project;
+    savedAt: number;            // Date.now() of the save
+}
+
+// project.json: the project minus the image, which is stored next to it as is
+interface ProjectManifest extends Omit<Project, 'sourceImage'> {
+    version: number;
+    sourceImage: { name: string; type: string; lastModified: number } | null;
+}
+
+/**
+ * A project worth saving has at least an image or a design in it
+ */
+export const isEmptyProject = (project: Project) => !project.sourceImage && !project.svgString;
+
+/**
+ * Dimensions as saved, with settings added since filled in. Versions 1 and 2
+ * kept the target size in inches.
+ */
+const normalizeDimensions = (saved?: Partial<ModelDimensions>): ModelDimensions => {
+    const { targetWidthInches, targetLengthInches, ...dimensions } = (saved ?? {}) as Partial<ModelDimensions> & {
+        targetWidthInches?: number;
+        targetLengthInches?: number;
+    };
+    if (typeof targetWidthInches === 'number') dimensions.targetWidthMm = targetWidthInches * INCH_TO_MM;
+    if (typeof targetLengthInches === 'number') dimensions.targetLengthMm = targetLengthInches * INCH_TO_MM;
+    return { ...DEFAULT_MODEL_DIMENSIONS, ...dimensions };
+};
+
+const normalizeCommand = (command: EditCommand): EditCommand => ({
+    ...command,
+    before: command.before.dimensions ? { ...command.before, dimensions: normalizeDimensions(command.before.dimensions) } : command.before,
+    after: command.after.dimensions ? { ...command.after, dimensions: normalizeDimensions(command.after.dimensions) } : command.after,
+});
+
+/**
+ * Fill in settings added since the project was saved and keep the history
+ * position inside the history
+ */
+const normalizeProject = (saved: Partial<Project>): Project => {
+    // Version 1 kept the list of SVGs it had been through instead of the edit history
+    const { svgHistory, historyIndex } = saved as { svgHistory?: string[]; historyIndex?: number };
+    const svgString = typeof saved.svgString === 'string'
+        ? saved.svgString
+        : svgHistory?.[historyIndex ?? svgHistory.length - 1] ?? null;
+    const commands = Array.isArray(saved.history?.commands) ? saved.history.commands.map(normalizeCommand) : EMPTY_HISTORY.commands;
+    const position = typeof saved.history?.position === 'number' ? saved.history.position : commands.length;
+
+    return {
+        sourceImage: saved.sourceImage ?? null,
+        imageAdjustments: { ...DEFAULT_IMAGE_ADJUSTMENTS, ...saved.imageAdjustments },
+        vectorOptions: { ...DEFAULT_VECTORIZATION_OPTIONS, ...saved.vectorOptions },
+        vectorizer: saved.vectorizer ?? 'auto',
+        dimensions: normalizeDimensions(saved.dimensions),
+        svgString,
+        history: { commands, position: Math.min(Math.max(position, 0), commands.length) },
+    };
+};
+
+/**
+ * Bundle a project as a zip holding project.json and the source image
+ */
+export const packProject = async (project: Project): Promise<Blob> => {
+    const { sourceImage, ...settings } = project;
+    const manifest: ProjectManifest = {
+        version: PROJECT_VERSION,
+        ...settings,
+        sourceImage: sourceImage && { name: sourceImage.name, type: sourceImage.type, lastModified: sourceImage.lastModified },
+    };
+
+    const files: Record<string, Uint8Array> = { [MANIFEST_NAME]: strToU8(JSON.stringify(manifest, null, 2)) };
+    if (sourceImage) files[SOURCE_FOLDER + sourceImage.name] = new Uint8Array(await sourceImage.arrayBuffer());
+
+    const archive = zipSync(files);
+    return new Blob([archive as Uint8Array<ArrayBuffer>], { type: 'application/zip' });
+};
+
+/**
+ * Read a project saved by packProject
+ */
+export const unpackProject = async (file: Blob): Promise<Project> => {
+    let files: Record<string, Uint8Array>;
+    let manifest: ProjectManifest;
+    try {
+        files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+        manifest = JSON.parse(strFromU8(files[MANIFEST_NAME]));
+    } catch {
+        throw new Error('Not a Linolium3D project file.');
+    }
+    if (typeof manifest.version !== 'number' || manifest.version > PROJECT_VERSION) {
+        throw new Error('This project was saved by a newer version of Linolium3D.');
+    }
+
+    let sourceImage: File | null = null;
+    if (manifest.sourceImage) {
+        const data = files[SOURCE_FOLDER + manifest.sourceImage.name];
+        if (!data) throw new Error('The project file is missing its source image.');
+        const { name, type, lastModified } = manifest.sourceImage;
+        sourceImage = new File([data as Uint8Array<ArrayBuffer>], name, { type, lastModified });
+    }
+
+    return normalizeProject({ ...manifest, sourceImage });
+};
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(AUTOSAVE_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const database = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = makeRequest(database.transaction(AUTOSAVE_STORE, mode).objectStore(AUTOSAVE_STORE));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        database.close();
+    }
+};
+
+/**
+ * Keep the session in IndexedDB, which stores the image as a Blob directly, so
+ * a refresh or a closed tab doesn't lose the work
+ */
+export const saveAutosave = async (project: Project) => {
+    try {
+        const saved: AutosavedProject = { project, savedAt: Date.now() };
+        await runRequest('readwrite', store => store.put(saved, AUTOSAVE_KEY));
+    } catch (error) {
+        console.warn('[Project] Could not autosave:', error);
+    }
+};
+
+export const loadAutosave = async (): Promise<AutosavedProject | null> => {
+    try {
+        const saved = await runRequest<AutosavedProject | undefined>('readonly', store => store.get(AUTOSAVE_KEY));
+        if (!saved?.project) return null;
+        const project = normalizeProject(saved.project);
+        return isEmptyProject(project) ? null : { project, savedAt: saved.savedAt };
+    } catch (error) {
+        console.warn('[Project] Could not read the autosave:', error);
+        return null;
+    }
+};
+
+export const clearAutosave = async () => {
+    try {
+        await runRequest('readwrite', store => store.delete(AUTOSAVE_KEY));
+    } catch (error) {
+        console.warn('[Project] Could not clear the autosave:', error);
+    }
+};
@@ -0,0 +1,103 @@
+import ClipperLib from 'clipper-lib';
+
+// Clipper works on integers; 1e4 keeps 0.1 µm precision in mm coordinates
+export const CLIPPER_SCALE = 1e4;
+// Round joins and ends stay within this many mm of a true arc
+const ARC_TOLERANCE_MM = 0.01;
+
+export type Pair = [number, number];
+export type Ring = Pair[];              // Closed: the last point repeats the first
+export type Polygon = Ring[];           // Outer boundary, then its holes
+export type MultiPolygon = Polygon[];
+
+/**
+ * A point on the integer grid Clipper works on, back in mm. Anything that has
+ * to meet Clipper's output exactly should be snapped to it first.
+ */
+export const snapToGrid = ([x, y]: Pair): Pair =>
+    [Math.round(x * CLIPPER_SCALE) / CLIPPER_SCALE, Math.round(y * CLIPPER_SCALE) / CLIPPER_SCALE];
+
+const toClipperPath = (points: Pair[]): ClipperLib.Path =>
+    points.map(([x, y]) => ({ X: Math.round(x * CLIPPER_SCALE), Y: Math.round(y * CLIPPER_SCALE) }));
+
+/**
+ * Every ring of a region as a Clipper path, outers wound counter-clockwise and
+ * holes clockwise, so under the non-zero rule a hole only cancels the outline
+ * it belongs to. Rings may be given closed or open.
+ */
+const toClipperPaths = (region: MultiPolygon) => region.flatMap(polygon => polygon.map((ring, i) => {
+    const path = toClipperPath(ring);
+    const first = path[0];
+    const last = path[path.length - 1];
+    if (path.length > 1 && first.X === last.X && first.Y === last.Y) path.pop();
+    if (ClipperLib.Clipper.Orientation(path) === (i > 0)) path.reverse();
+    return path;
+}));
+
+/**
+ * A Clipper path back in mm, closed
+ */
+const fromClipperRing = (path: ClipperLib.Path): Ring => {
+    const ring = path.map(({ X, Y }) => [X / CLIPPER_SCALE, Y / CLIPPER_SCALE] as Pair);
+    return [...ring, ring[0]];
+};
+
+// Islands inside holes come out as polygons of their own
+const fromPolyTree = (tree: ClipperLib.PolyTree): MultiPolygon =>
+    ClipperLib.JS.PolyTreeToExPolygons(tree)
+        .map(({ outer, holes }) => [fromClipperRing(outer), ...holes.map(fromClipperRing)]);
+
+const booleanOperation = (type: ClipperLib.ClipType, subjects: MultiPolygon[], clips: MultiPolygon[]) => {
+    const clipper = new ClipperLib.Clipper();
+    subjects.forEach(region => clipper.AddPaths(toClipperPaths(region), ClipperLib.PolyType.ptSubject, true));
+    clips.forEach(region => clipper.AddPaths(toClipperPaths(region), ClipperLib.PolyType.ptClip, true));
+    const tree = new ClipperLib.PolyTree();
+    clipper.Execute(type, tree, ClipperLib.PolyFillType.pftNonZero, ClipperLib.PolyFillType.pftNonZero);
+    return fromPolyTree(tree);
+};
+
+/**
+ * Everything covered by any of the regions, overlaps merged
+ */
+export const unionRegions = (...regions: MultiPolygon[]) =>
+    booleanOperation(ClipperLib.ClipType.ctUnion, regions, []);
+
+/**
+ * `region` with every one of `cuts` taken out of it
+ */
+export const subtractRegions = (region: MultiPolygon, ...cuts: MultiPolygon[]) =>
+    booleanOperation(ClipperLib.ClipType.ctDifference, [region], cuts);
+
+/**
+ * Where both regions overlap
+ */
+export const intersectRegions = (a: MultiPolygon, b: MultiPolygon) =>
+    booleanOperation(ClipperLib.ClipType.ctIntersection, [a], [b]);
+
+/**
+ * Grow a region outwards by `distance` mm, or shrink it for a negative distance.
+ * Offsetting the merged region (rather than each ring) lets neighbouring shapes
+ * fuse cleanly where their shoulders meet.
+ * Mitred joins keep every offset edge parallel to, and clear of, the outline it
+ * came from, so stacked bands never share a line the triangulator could cut across.
+ */
+export const offsetRegion = (region: MultiPolygon, distance: number): MultiPolygon => {
+    const offset = new ClipperLib.ClipperOffset(2, ARC_TOLERANCE_MM * CLIPPER_SCALE);
+    offset.AddPaths(toClipperPaths(region), ClipperLib.JoinType.jtMiter, ClipperLib.EndType.etClosedPolygon);
+    const tree = new ClipperLib.PolyTree();
+    offset.Execute(tree, distance * CLIPPER_SCALE);
+    return fromPolyTree(tree);
+};
+
+/**
+ * The area a round brush of `radius` mm covers when dragged along `points`,
+ * with round ends so a single point is a dot
+ */
+export const strokeRegion = (points: Pair[], radius: number): MultiPolygon => {
+    if (points.length === 0 || radius <= 0) return [];
+    const offset = new ClipperLib.ClipperOffset(2, ARC_TOLERANCE_MM * CLIPPER_SCALE);
+    offset.AddPath(toClipperPath(points), ClipperLib.JoinType.jtRound, ClipperLib.EndType.etOpenRound);
+    const tree = new ClipperLib.PolyTree();
+    offset.Execute(tree, radius * CLIPPER_SCALE);
+    return fromPolyTree(tree);
+};
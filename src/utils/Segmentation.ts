@@ -0,0 +1,197 @@
+import type { SegmentationAlgorithm } from './ImageProcessor';
+
+// Same block size and offset the backend passes to cv2.adaptiveThreshold
+const ADAPTIVE_BLOCK_SIZE = 11;
+const ADAPTIVE_C = 2;
+
+export interface GrayImage {
+    data: Uint8ClampedArray;    // One luminance byte per pixel
+    width: number;
+    height: number;
+}
+
+export interface SegmentationSettings {
+    algorithm: SegmentationAlgorithm;
+    threshold: number;
+    manualThreshold: boolean;
+}
+
+/**
+ * Decode an image file into RGBA pixels using the browser's own decoders,
+ * optionally downscaled so its longest side is at most `maxDimension`
+ */
+export const decodeImage = async (file: Blob, maxDimension: number = Infinity): Promise<ImageData> => {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported.');
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Convert RGBA pixels to luminance, treating transparent pixels as white paper
+ */
+export const toGrayscale = (image: ImageData): GrayImage => {
+    const { width, height } = image;
+    const rgba = image.data;
+    const data = new Uint8ClampedArray(width * height);
+    for (let i = 0, p = 0; p < data.length; i += 4, p++) {
+        data[p] = rgba[i + 3] < 128
+            ? 255
+            : 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+    }
+    return { data, width, height };
+};
+
+export const computeHistogram = (gray: GrayImage) => {
+    const histogram = new Array<number>(256).fill(0);
+    for (let i = 0; i < gray.data.length; i++) histogram[gray.data[i]]++;
+    return histogram;
+};
+
+/**
+ * Otsu's method: the threshold that maximises between-class variance
+ */
+export const otsuThreshold = (histogram: number[]) => {
+    const total = histogram.reduce((sum, count) => sum + count, 0);
+    const weightedTotal = histogram.reduce((sum, count, value) => sum + value * count, 0);
+
+    let backgroundWeight = 0;
+    let backgroundSum = 0;
+    let bestThreshold = 0;
+    let bestVariance = -1;
+
+    for (let t = 0; t < 256; t++) {
+        backgroundWeight += histogram[t];
+        if (backgroundWeight === 0) continue;
+        const foregroundWeight = total - backgroundWeight;
+        if (foregroundWeight === 0) break;
+
+        backgroundSum += t * histogram[t];
+        const backgroundMean = backgroundSum / backgroundWeight;
+        const foregroundMean = (weightedTotal - backgroundSum) / foregroundWeight;
+        const variance = backgroundWeight * foregroundWeight * (backgroundMean - foregroundMean) ** 2;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            bestThreshold = t;
+        }
+    }
+
+    return bestThreshold;
+};
+
+/**
+ * 3x3 median filter, clamping at the image border
+ */
+export const medianFilter = (gray: GrayImage): GrayImage => {
+    const { width, height } = gray;
+    const data = new Uint8ClampedArray(gray.data.length);
+    const window = new Array<number>(9);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let n = 0;
+            for (let dy = -1; dy <= 1; dy++) {
+                const yy = Math.min(height - 1, Math.max(0, y + dy));
+                for (let dx = -1; dx <= 1; dx++) {
+                    const xx = Math.min(width - 1, Math.max(0, x + dx));
+                    window[n++] = gray.data[yy * width + xx];
+                }
+            }
+            window.sort((a, b) => a - b);
+            data[y * width + x] = window[4];
+        }
+    }
+    return { data, width, height };
+};
+
+/**
+ * Separable Gaussian blur with OpenCV's default sigma for the given kernel size
+ */
+const gaussianBlur = (gray: GrayImage, size: number) => {
+    const { width, height } = gray;
+    const sigma = 0.3 * ((size - 1) * 0.5 - 1) + 0.8;
+    const radius = Math.floor(size / 2);
+    const kernel: number[] = [];
+    let kernelSum = 0;
+    for (let i = -radius; i <= radius; i++) {
+        const weight = Math.exp(-(i * i) / (2 * sigma * sigma));
+        kernel.push(weight);
+        kernelSum += weight;
+    }
+    for (let i = 0; i < kernel.length; i++) kernel[i] /= kernelSum;
+
+    const horizontal = new Float32Array(gray.data.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let sum = 0;
+            for (let k = -radius; k <= radius; k++) {
+                const xx = Math.min(width - 1, Math.max(0, x + k));
+                sum += gray.data[y * width + xx] * kernel[k + radius];
+            }
+            horizontal[y * width + x] = sum;
+        }
+    }
+
+    const blurred = new Float32Array(gray.data.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let sum = 0;
+            for (let k = -radius; k <= radius; k++) {
+                const yy = Math.min(height - 1, Math.max(0, y + k));
+                sum += horizontal[yy * width + x] * kernel[k + radius];
+            }
+            blurred[y * width + x] = sum;
+        }
+    }
+    return blurred;
+};
+
+/**
+ * Binarize a grayscale image the same way the Python backend does.
+ * Returns one byte per pixel, 0 for ink and 255 for paper, with the design
+ * forced to be the dark side so Potrace traces the ink and not the background.
+ */
+export const binarize = (gray: GrayImage, settings: SegmentationSettings): Uint8ClampedArray => {
+    const mask = new Uint8ClampedArray(gray.data.length);
+
+    if (settings.algorithm === 'adaptive') {
+        const mean = gaussianBlur(gray, ADAPTIVE_BLOCK_SIZE);
+        for (let i = 0; i < mask.length; i++) {
+            mask[i] = gray.data[i] > mean[i] - ADAPTIVE_C ? 255 : 0;
+        }
+    } else {
+        const source = settings.algorithm === 'median-otsu' ? medianFilter(gray) : gray;
+        const threshold = settings.manualThreshold
+            ? settings.threshold
+            : otsuThreshold(computeHistogram(source));
+        for (let i = 0; i < mask.length; i++) {
+            mask[i] = source.data[i] > threshold ? 255 : 0;
+        }
+    }
+
+    let black = 0;
+    for (let i = 0; i < mask.length; i++) if (mask[i] === 0) black++;
+    const white = mask.length - black;
+    if (black > white * 2) {
+        for (let i = 0; i < mask.length; i++) mask[i] = 255 - mask[i];
+    }
+
+    return mask;
+};
+
+/**
+ * Expand a one-byte-per-pixel mask back into opaque RGBA pixels
+ */
+export const maskToImageData = (mask: Uint8ClampedArray, width: number, height: number) => {
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    for (let p = 0, i = 0; p < mask.length; p++, i += 4) {
+        rgba[i] = rgba[i + 1] = rgba[i + 2] = mask[p];
+        rgba[i + 3] = 255;
+    }
+    return new ImageData(rgba, width, height);
+};
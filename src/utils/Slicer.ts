@@ -0,0 +1,294 @@
+import * as THREE from 'three';
+
+// Contour vertices are matched on a grid of 1 / POINT_PRECISION mm (1e-5 mm)
+const POINT_PRECISION = 1e5;
+// Vertices that deviate less than this (in mm) from a straight line are dropped
+const COLLINEAR_TOLERANCE = 0.005;
+
+export type Loop = THREE.Vector2[];
+
+export interface SlicePolygon {
+    outer: Loop;    // Counter-clockwise outer boundary
+    holes: Loop[];  // Clockwise inner boundaries
+}
+
+export interface SliceLayer {
+    index: number;
+    z: number;          // Top of the layer, i.e. the nozzle height while printing it
+    height: number;     // Thickness of this layer
+    polygons: SlicePolygon[];
+}
+
+export interface TriangleSoup {
+    positions: Float32Array; // 9 floats per triangle, in model space
+    count: number;
+    minZ: number;
+    maxZ: number;
+}
+
+/**
+ * Signed area of a closed loop (positive = counter-clockwise)
+ */
+export const loopArea = (loop: Loop) => {
+    let area = 0;
+    for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+        area += (loop[j].x - loop[i].x) * (loop[j].y + loop[i].y);
+    }
+    return area / 2;
+};
+
+/**
+ * Even-odd point-in-polygon test against a single closed loop
+ */
+export const pointInLoop = (point: THREE.Vector2, loop: Loop) => {
+    let inside = false;
+    for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+        const a = loop[i];
+        const b = loop[j];
+        if ((a.y > point.y) !== (b.y > point.y) &&
+            point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/**
+ * Collect every mesh triangle in the group's own (unrotated) frame,
+ * where Z is the build direction and the base plate starts at Z=0
+ */
+export const collectTriangles = (group: THREE.Group): TriangleSoup => {
+    group.updateMatrixWorld(true);
+    const toModelSpace = group.matrixWorld.clone().invert();
+    const chunks: Float32Array[] = [];
+    let count = 0;
+    let minZ = Infinity;
+    let maxZ = -Infinity;
+
+    const v = new THREE.Vector3();
+    group.traverse((child) => {
+        if (!(child instanceof THREE.Mesh)) return;
+        const geometry = child.geometry as THREE.BufferGeometry;
+        const position = geometry.getAttribute('position');
+        if (!position) return;
+
+        const matrix = toModelSpace.clone().multiply(child.matrixWorld);
+        const index = geometry.getIndex();
+        const vertexCount = index ? index.count : position.count;
+        const triangleCount = Math.floor(vertexCount / 3);
+        const chunk = new Float32Array(triangleCount * 9);
+
+        for (let i = 0; i < triangleCount * 3; i++) {
+            const vi = index ? index.getX(i) : i;
+            v.fromBufferAttribute(position, vi).applyMatrix4(matrix);
+            chunk[i * 3] = v.x;
+            chunk[i * 3 + 1] = v.y;
+            chunk[i * 3 + 2] = v.z;
+            minZ = Math.min(minZ, v.z);
+            maxZ = Math.max(maxZ, v.z);
+        }
+
+        chunks.push(chunk);
+        count += triangleCount;
+    });
+
+    const positions = new Float32Array(count * 9);
+    let offset = 0;
+    chunks.forEach(chunk => {
+        positions.set(chunk, offset);
+        offset += chunk.length;
+    });
+
+    return { positions, count, minZ, maxZ };
+};
+
+const pointKey = (x: number, y: number) =>
+    `${Math.round(x * POINT_PRECISION)},${Math.round(y * POINT_PRECISION)}`;
+
+/**
+ * Intersect every triangle with the plane Z=z and return the cut segments.
+ * Edge endpoints are ordered by Z before interpolating so that the two
+ * triangles sharing an edge produce bit-identical points.
+ */
+const intersectPlane = (soup: TriangleSoup, z: number) => {
+    const segments: [THREE.Vector2, THREE.Vector2][] = [];
+    const p = soup.positions;
+    const crossings: THREE.Vector2[] = [];
+
+    const cutEdge = (a: number, b: number) => {
+        let lo = a, hi = b;
+        if (p[lo + 2] > p[hi + 2]) { lo = b; hi = a; }
+        const t = (z - p[lo + 2]) / (p[hi + 2] - p[lo + 2]);
+        crossings.push(new THREE.Vector2(
+            p[lo] + (p[hi] - p[lo]) * t,
+            p[lo + 1] + (p[hi + 1] - p[lo + 1]) * t
+        ));
+    };
+
+    for (let tri = 0; tri < soup.count; tri++) {
+        const base = tri * 9;
+        const za = p[base + 2], zb = p[base + 5], zc = p[base + 8];
+        if (Math.min(za, zb, zc) > z || Math.max(za, zb, zc) < z) continue;
+
+        // Vertices exactly on the plane count as above it
+        const aAbove = za >= z, bAbove = zb >= z, cAbove = zc >= z;
+        if (aAbove === bAbove && bAbove === cAbove) continue;
+
+        crossings.length = 0;
+        if (aAbove !== bAbove) cutEdge(base, base + 3);
+        if (bAbove !== cAbove) cutEdge(base + 3, base + 6);
+        if (cAbove !== aAbove) cutEdge(base + 6, base);
+
+        if (crossings.length === 2) {
+            segments.push([crossings[0], crossings[1]]);
+        }
+    }
+
+    return segments;
+};
+
+/**
+ * Chain loose segments into closed loops by matching shared endpoints.
+ * Chains that never close (non-manifold input) are dropped.
+ */
+const joinSegments = (segments: [THREE.Vector2, THREE.Vector2][]) => {
+    const points = new Map<string, THREE.Vector2>();
+    const adjacency = new Map<string, string[]>();
+
+    const link = (from: string, to: string) => {
+        const list = adjacency.get(from);
+        if (list) list.push(to);
+        else adjacency.set(from, [to]);
+    };
+
+    segments.forEach(([a, b]) => {
+        const ka = pointKey(a.x, a.y);
+        const kb = pointKey(b.x, b.y);
+        if (ka === kb) return;
+        points.set(ka, a);
+        points.set(kb, b);
+        link(ka, kb);
+        link(kb, ka);
+    });
+
+    const usedEdges = new Set<string>();
+    const edgeId = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+    const loops: Loop[] = [];
+
+    adjacency.forEach((neighbours, start) => {
+        neighbours.forEach(first => {
+            if (usedEdges.has(edgeId(start, first))) return;
+            usedEdges.add(edgeId(start, first));
+
+            const keys = [start];
+            let current = first;
+            while (current !== start) {
+                keys.push(current);
+                const next = (adjacency.get(current) ?? []).find(n => !usedEdges.has(edgeId(current, n)));
+                if (!next) break;
+                usedEdges.add(edgeId(current, next));
+                current = next;
+            }
+
+            if (current === start && keys.length >= 3) {
+                loops.push(keys.map(k => points.get(k)!));
+            }
+        });
+    });
+
+    return loops;
+};
+
+/**
+ * Drop vertices that lie (almost) on the line between their neighbours
+ */
+export const simplifyLoop = (loop: Loop, tolerance: number = COLLINEAR_TOLERANCE) => {
+    if (loop.length <= 3) return loop;
+    const result: Loop = [];
+    for (let i = 0; i < loop.length; i++) {
+        const prev = result.length > 0 ? result[result.length - 1] : loop[loop.length - 1];
+        const point = loop[i];
+        const next = loop[(i + 1) % loop.length];
+        const dx = next.x - prev.x;
+        const dy = next.y - prev.y;
+        const length = Math.hypot(dx, dy);
+        const deviation = length > 0
+            ? Math.abs(dx * (prev.y - point.y) - dy * (prev.x - point.x)) / length
+            : point.distanceTo(prev);
+        if (deviation > tolerance) result.push(point);
+    }
+    return result.length >= 3 ? result : loop;
+};
+
+/**
+ * Classify loops into outlines and holes by nesting depth (even-odd rule)
+ * and group each hole with the outline that directly contains it
+ */
+export const buildPolygons = (loops: Loop[]): SlicePolygon[] => {
+    const sorted = loops
+        .map(loop => ({ loop, area: Math.abs(loopArea(loop)) }))
+        .filter(entry => entry.area > 1e-6)
+        .sort((a, b) => b.area - a.area);
+
+    const depth: number[] = [];
+    const parent: number[] = [];
+    const polygonFor = new Map<number, SlicePolygon>();
+    const polygons: SlicePolygon[] = [];
+
+    sorted.forEach((entry, i) => {
+        // Larger loops come first, so the last container found is the innermost one
+        let container = -1;
+        for (let j = 0; j < i; j++) {
+            if (pointInLoop(entry.loop[0], sorted[j].loop)) container = j;
+        }
+        parent[i] = container;
+        depth[i] = container === -1 ? 0 : depth[container] + 1;
+
+        const ccw = loopArea(entry.loop) > 0;
+        if (depth[i] % 2 === 0) {
+            const polygon: SlicePolygon = { outer: ccw ? entry.loop : [...entry.loop].reverse(), holes: [] };
+            polygonFor.set(i, polygon);
+            polygons.push(polygon);
+        } else {
+            polygonFor.get(parent[i])!.holes.push(ccw ? [...entry.loop].reverse() : entry.loop);
+        }
+    });
+
+    return polygons;
+};
+
+/**
+ * Slice every mesh in the group into horizontal layers of closed contours.
+ * Each layer is cut at its mid-height so faces lying exactly on a layer
+ * boundary (such as the top of the base plate) never produce ambiguous cuts.
+ * The first layer may be thicker or thinner than the rest for bed adhesion.
+ */
+export const sliceGroup = (
+    group: THREE.Group,
+    layerHeight: number,
+    firstLayerHeight: number = layerHeight
+): SliceLayer[] => {
+    const soup = collectTriangles(group);
+    const layers: SliceLayer[] = [];
+    if (soup.count === 0) return layers;
+
+    const totalHeight = soup.maxZ - soup.minZ;
+    const layerCount = totalHeight > firstLayerHeight / 2
+        ? 1 + Math.max(0, Math.round((totalHeight - firstLayerHeight) / layerHeight))
+        : 0;
+
+    for (let i = 0; i < layerCount; i++) {
+        const height = i === 0 ? firstLayerHeight : layerHeight;
+        const bottom = i === 0 ? 0 : firstLayerHeight + (i - 1) * layerHeight;
+        const cutZ = soup.minZ + bottom + height / 2;
+        const loops = joinSegments(intersectPlane(soup, cutZ)).map(loop => simplifyLoop(loop));
+        layers.push({
+            index: i,
+            z: bottom + height,
+            height,
+            polygons: buildPolygons(loops),
+        });
+    }
+
+    return layers;
+};
@@ -0,0 +1,163 @@
+import * as THREE from 'three';
+import { isInkColor } from './ModelGenerator';
+
+// Elements the editor treats as one selectable shape each
+export const SHAPE_SELECTOR = 'path, polygon, rect, circle, ellipse';
+// Points taken along a shape's outline to test it against a lasso
+const LASSO_SAMPLES = 24;
+
+export interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type Point = { x: number; y: number };
+
+export const shapesOf = (svg: SVGSVGElement) => Array.from(svg.querySelectorAll<SVGGeometryElement>(SHAPE_SELECTOR));
+
+/**
+ * Transform from an element's own coordinates to the root SVG's user space
+ * (its viewBox), including every transform on the way
+ */
+export const toRootMatrix = (svg: SVGSVGElement, element: SVGGraphicsElement) => {
+    const root = svg.getScreenCTM();
+    const own = element.getScreenCTM();
+    if (!root || !own) return new DOMMatrix();
+    return DOMMatrix.fromMatrix(root).inverse().multiply(DOMMatrix.fromMatrix(own));
+};
+
+/**
+ * Transform from an element's own coordinates to the root's, read from the
+ * transform attributes alone so it also works on a parsed document that is
+ * never rendered. Like SVGLoader, it leaves the root's viewBox out.
+ */
+export const attributeMatrix = (element: Element) => {
+    let matrix = new DOMMatrix();
+    for (let node: Element | null = element; node; node = node.parentElement) {
+        const consolidated = node instanceof SVGGraphicsElement ? node.transform.baseVal.consolidate() : null;
+        if (consolidated) matrix = DOMMatrix.fromMatrix(consolidated.matrix).multiply(matrix);
+    }
+    return matrix;
+};
+
+/**
+ * Pointer position in the root SVG's user space
+ */
+export const clientToSvg = (svg: SVGSVGElement, clientX: number, clientY: number): Point => {
+    const root = svg.getScreenCTM();
+    if (!root) return { x: clientX, y: clientY };
+    const point = new DOMPoint(clientX, clientY).matrixTransform(DOMMatrix.fromMatrix(root).inverse());
+    return { x: point.x, y: point.y };
+};
+
+/**
+ * How many user units one screen pixel covers, for sizing handles and nudges
+ */
+export const unitsPerPixel = (svg: SVGSVGElement) => {
+    const root = svg.getScreenCTM();
+    return root ? 1 / Math.hypot(root.a, root.b) : 1;
+};
+
+/**
+ * Axis-aligned bounds of the shapes in the root's user space
+ */
+export const boundsOf = (svg: SVGSVGElement, elements: SVGGraphicsElement[]): Box | null => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    elements.forEach(element => {
+        const box = element.getBBox();
+        const matrix = toRootMatrix(svg, element);
+        [[box.x, box.y], [box.x + box.width, box.y], [box.x, box.y + box.height], [box.x + box.width, box.y + box.height]]
+            .forEach(([x, y]) => {
+                const corner = new DOMPoint(x, y).matrixTransform(matrix);
+                minX = Math.min(minX, corner.x);
+                minY = Math.min(minY, corner.y);
+                maxX = Math.max(maxX, corner.x);
+                maxY = Math.max(maxY, corner.y);
+            });
+    });
+    return minX === Infinity ? null : { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const boxContains = (outer: Box, inner: Box) =>
+    inner.x >= outer.x && inner.y >= outer.y
+    && inner.x + inner.width <= outer.x + outer.width
+    && inner.y + inner.height <= outer.y + outer.height;
+
+const pointInPolygon = (point: Point, polygon: Point[]) => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/**
+ * Whether a shape's whole outline lies inside a lasso drawn in root user space
+ */
+export const shapeInLasso = (svg: SVGSVGElement, element: SVGGeometryElement, lasso: Point[]) => {
+    const matrix = toRootMatrix(svg, element);
+    const length = element.getTotalLength();
+    for (let i = 0; i < LASSO_SAMPLES; i++) {
+        const local = element.getPointAtLength((length * i) / LASSO_SAMPLES);
+        const point = new DOMPoint(local.x, local.y).matrixTransform(matrix);
+        if (!pointInPolygon(point, lasso)) return false;
+    }
+    return true;
+};
+
+/**
+ * Current transform attributes, to restore or build on during a drag
+ */
+export const captureTransforms = (elements: SVGGraphicsElement[]) =>
+    elements.map(element => element.getAttribute('transform'));
+
+export const restoreTransforms = (elements: SVGGraphicsElement[], transforms: (string | null)[]) => {
+    elements.forEach((element, i) => {
+        const transform = transforms[i];
+        if (transform === null) element.removeAttribute('transform');
+        else element.setAttribute('transform', transform);
+    });
+};
+
+/**
+ * A matrix as a transform attribute value
+ */
+export const matrixAttribute = ({ a, b, c, d, e, f }: DOMMatrix) =>
+    `matrix(${[a, b, c, d, e, f].map(v => +v.toFixed(6)).join(' ')})`;
+
+/**
+ * Apply a transform given in the root's user space to each shape, whatever
+ * groups and transforms it already sits under. The shape keeps a single
+ * matrix() transform: its old one with the new movement folded in.
+ */
+export const transformShapes = (svg: SVGSVGElement, elements: SVGGraphicsElement[], transform: DOMMatrix) => {
+    elements.forEach(element => {
+        const consolidated = element.transform.baseVal.consolidate();
+        const local = consolidated ? DOMMatrix.fromMatrix(consolidated.matrix) : new DOMMatrix();
+        const toRoot = toRootMatrix(svg, element);
+        element.setAttribute('transform', matrixAttribute(local.multiply(toRoot.inverse()).multiply(transform).multiply(toRoot)));
+    });
+};
+
+/**
+ * Ink is anything dark enough to be extruded; create3DModel treats light
+ * fills as background that cuts away the ink painted before it. The fill is
+ * parsed the way SVGLoader parses it, so both agree on every gray.
+ */
+export const isInk = (element: SVGElement) => {
+    const fill = getComputedStyle(element).fill;
+    if (!fill.startsWith('rgb')) return false;
+    return isInkColor(new THREE.Color().setStyle(fill));
+};
+
+export const setInk = (element: SVGElement, ink: boolean) => {
+    // A fill in the style attribute would win over the attribute
+    element.style.removeProperty('fill');
+    element.setAttribute('fill', ink ? '#000000' : '#ffffff');
+};
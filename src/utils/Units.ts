@@ -0,0 +1,57 @@
+export type LengthUnit = 'mm' | 'cm' | 'in';
+
+const UNIT_KEY = 'linolium3d.lengthUnit';
+
+// Conversion: 1 inch = 25.4 mm
+export const INCH_TO_MM = 25.4;
+
+const MM_PER_UNIT: Record<LengthUnit, number> = { mm: 1, cm: 10, in: INCH_TO_MM };
+// Places to round to: about a hundredth of a millimeter, without float noise
+const DECIMALS: Record<LengthUnit, number> = { mm: 2, cm: 3, in: 4 };
+
+export const LENGTH_UNITS: LengthUnit[] = ['mm', 'cm', 'in'];
+
+/**
+ * A length stored in mm, in the given unit and rounded for display
+ */
+export const toUnit = (mm: number, unit: LengthUnit) => {
+    const factor = 10 ** DECIMALS[unit];
+    return Math.round((mm / MM_PER_UNIT[unit]) * factor) / factor;
+};
+
+/**
+ * A length entered in the given unit, in mm for storing
+ */
+export const fromUnit = (value: number, unit: LengthUnit) => value * MM_PER_UNIT[unit];
+
+export const formatLength = (mm: number, unit: LengthUnit) => `${toUnit(mm, unit)}${unit === 'in' ? '"' : unit}`;
+
+/**
+ * A step of roughly `mm` in the given unit, rounded to 1, 2 or 5 of a power
+ * of ten so the arrows land on even values. Millimeter steps are kept as given.
+ */
+export const unitStep = (mm: number, unit: LengthUnit) => {
+    if (unit === 'mm') return mm;
+    const value = mm / MM_PER_UNIT[unit];
+    const power = 10 ** Math.floor(Math.log10(value));
+    const nice = [1, 2, 5, 10].find(m => m * power >= value * 0.75) ?? 10;
+    return +(nice * power).toPrecision(1);
+};
+
+export const loadLengthUnit = (): LengthUnit => {
+    try {
+        const saved = localStorage.getItem(UNIT_KEY);
+        return LENGTH_UNITS.includes(saved as LengthUnit) ? saved as LengthUnit : 'mm';
+    } catch (error) {
+        console.warn('[Units] Could not read the length unit:', error);
+        return 'mm';
+    }
+};
+
+export const saveLengthUnit = (unit: LengthUnit) => {
+    try {
+        localStorage.setItem(UNIT_KEY, unit);
+    } catch (error) {
+        console.warn('[Units] Could not save the length unit:', error);
+    }
+};